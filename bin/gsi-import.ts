@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+// Generates a GSIConfiguration[] from a saved DescribeTable snapshot, for onboarding an
+// existing table without hand-translating each index.
+//
+//   aws dynamodb describe-table --table-name Orders > orders.json
+//   gsi-import --table orders.json [--format json] > lib/orders-gsis.ts
+//
+// Warnings go to stderr (and into the generated TypeScript as comments).
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  importFromDescribeTable,
+  renderConfigurationsAsJson,
+  renderConfigurationsAsTypeScript,
+} from "../lib/gsi-import";
+import { toTableDescription } from "../lib/gsi-plan";
+
+const USAGE = `Usage: gsi-import --table <describe-table.json> [options]
+
+Options:
+  --format <ts|json>       Output format (default: ts)
+  --name <identifier>      Exported variable name for --format ts
+                           (default: <tableName>GlobalSecondaryIndexes)
+  --types-module <path>    Module to import GSIConfiguration from (default: ./types)
+  --help                   Show this message`;
+
+const main = (): number => {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      table: { type: "string" },
+      format: { type: "string", default: "ts" },
+      name: { type: "string" },
+      "types-module": { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.table) {
+    throw new Error(`--table is required.\n\n${USAGE}`);
+  }
+  if (values.format !== "ts" && values.format !== "json") {
+    throw new Error(`--format must be "ts" or "json", got "${values.format}".`);
+  }
+
+  const table = toTableDescription(JSON.parse(readFileSync(values.table, "utf8")), values.table);
+  const result = importFromDescribeTable(table);
+  result.warnings.forEach((warning) => console.error(`Warning: ${warning}`));
+  console.log(
+    values.format === "json"
+      ? renderConfigurationsAsJson(result)
+      : renderConfigurationsAsTypeScript(result, {
+          variableName: values.name,
+          typesModule: values["types-module"],
+        })
+  );
+  return 0;
+};
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(`gsi-import: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
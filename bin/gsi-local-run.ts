@@ -0,0 +1,231 @@
+#!/usr/bin/env node
+// Runs the GSI manager custom resource against DynamoDB Local (or any other endpoint)
+// the way the Provider framework would: onEventHandler once, then isCompleteHandler
+// on an interval until the operation completes. Used to rehearse a migration locally.
+//
+//   npm run local-run -- --props gsi-props.json [--request Update --old-props old.json]
+//
+// The props file holds the custom resource properties (tableName, globalSecondaryIndexes, ...).
+// The target table must already exist at the endpoint; the state table is created on demand.
+
+import { readFileSync } from "node:fs";
+import { setTimeout as sleep } from "node:timers/promises";
+import { parseArgs } from "node:util";
+import {
+  CreateTableCommand,
+  DescribeTableCommand,
+  ResourceNotFoundException,
+  waitUntilTableExists,
+  type DynamoDBClient,
+} from "@aws-sdk/client-dynamodb";
+import {
+  createDynamoDBClient,
+  readClientSettingsFromEnv,
+  type DynamoDBClientSettings,
+} from "../lambda/gsi-manager/src/client-config";
+import { DynamoDBGSIServiceImpl } from "../lambda/gsi-manager/src/dynamodb-gsi-service";
+import {
+  createOnEventHandler,
+  type CloudFormationCustomResourceEvent,
+} from "../lambda/gsi-manager/src/handler";
+import { createDefaultHandlerDependencies } from "../lambda/gsi-manager/src/handler-dependencies";
+import { createIsCompleteHandler } from "../lambda/gsi-manager/src/is-complete-handler";
+import { STATE_TABLE_NAME_ENV } from "../lambda/gsi-manager/src/operation-state-store";
+
+const USAGE = `Usage: gsi-local-run --props <file.json> [options]
+
+Options:
+  --request <Create|Update|Delete>  Request type to simulate (default: Create)
+  --old-props <file.json>           Previous properties for an Update (default: same as --props)
+  --endpoint <url>                  DynamoDB endpoint (default: GSI_MANAGER_DYNAMODB_ENDPOINT or http://localhost:8000)
+  --state-table <name>              Operation state table, created if missing (default: gsi-manager-local-state)
+  --interval-ms <ms>                Delay between isComplete polls (default: 1000)
+  --max-polls <n>                   Give up after this many polls (default: 600)
+  --help                            Show this message`;
+
+const REQUEST_TYPES = ["Create", "Update", "Delete"] as const;
+type RequestType = (typeof REQUEST_TYPES)[number];
+
+interface RunOptions {
+  requestType: RequestType;
+  props: Record<string, unknown>;
+  oldProps: Record<string, unknown>;
+  clientSettings: DynamoDBClientSettings;
+  stateTableName: string;
+  intervalMs: number;
+  maxPolls: number;
+}
+
+const readJsonFile = (file: string): Record<string, unknown> => {
+  const parsed: unknown = JSON.parse(readFileSync(file, "utf8"));
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${file} must contain a JSON object with the custom resource properties.`);
+  }
+  return parsed as Record<string, unknown>;
+};
+
+const toPositiveInteger = (name: string, value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--${name} must be a positive integer, got "${value}".`);
+  }
+  return parsed;
+};
+
+const parseCommandLine = (argv: string[]): RunOptions | undefined => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      props: { type: "string" },
+      "old-props": { type: "string" },
+      request: { type: "string", default: "Create" },
+      endpoint: { type: "string" },
+      "state-table": { type: "string", default: "gsi-manager-local-state" },
+      "interval-ms": { type: "string", default: "1000" },
+      "max-polls": { type: "string", default: "600" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    return undefined;
+  }
+  if (!values.props) {
+    throw new Error(`--props is required.\n\n${USAGE}`);
+  }
+  const requestType = values.request as RequestType;
+  if (!REQUEST_TYPES.includes(requestType)) {
+    throw new Error(`--request must be one of ${REQUEST_TYPES.join(", ")}, got "${values.request}".`);
+  }
+
+  // DynamoDB Local accepts any region and credentials, but the SDK still requires them.
+  const fromEnv = readClientSettingsFromEnv();
+  const clientSettings: DynamoDBClientSettings = {
+    region: "local",
+    credentials: { accessKeyId: "local", secretAccessKey: "local" },
+    ...fromEnv,
+    endpoint: values.endpoint ?? fromEnv.endpoint ?? "http://localhost:8000",
+  };
+
+  const props = readJsonFile(values.props);
+  return {
+    requestType,
+    props,
+    oldProps: values["old-props"] ? readJsonFile(values["old-props"]) : props,
+    clientSettings,
+    stateTableName: values["state-table"],
+    intervalMs: toPositiveInteger("interval-ms", values["interval-ms"]),
+    maxPolls: toPositiveInteger("max-polls", values["max-polls"]),
+  };
+};
+
+const ensureStateTable = async (client: DynamoDBClient, tableName: string): Promise<void> => {
+  try {
+    await client.send(new DescribeTableCommand({ TableName: tableName }));
+    return;
+  } catch (error) {
+    if (!(error instanceof ResourceNotFoundException)) {
+      throw error;
+    }
+  }
+
+  console.log(`Creating operation state table ${tableName}`);
+  await client.send(
+    new CreateTableCommand({
+      TableName: tableName,
+      AttributeDefinitions: [{ AttributeName: "resourceKey", AttributeType: "S" }],
+      KeySchema: [{ AttributeName: "resourceKey", KeyType: "HASH" }],
+      BillingMode: "PAY_PER_REQUEST",
+    })
+  );
+  await waitUntilTableExists({ client, maxWaitTime: 60 }, { TableName: tableName });
+};
+
+const buildEvent = (options: RunOptions): CloudFormationCustomResourceEvent => {
+  const tableName = String(options.props.tableName);
+  const common = {
+    ServiceToken: "local",
+    ResponseURL: "http://localhost/unused",
+    StackId: "arn:aws:cloudformation:local:000000000000:stack/gsi-local-run/local",
+    RequestId: `local-${Date.now()}`,
+    LogicalResourceId: "GsiManager",
+    ResourceType: "Custom::GsiManager",
+    ResourceProperties: options.props,
+  };
+
+  switch (options.requestType) {
+    case "Create":
+      return { ...common, RequestType: "Create" };
+    case "Update":
+      return {
+        ...common,
+        RequestType: "Update",
+        PhysicalResourceId: `GSIManager-${tableName}`,
+        OldResourceProperties: options.oldProps,
+      };
+    case "Delete":
+      return { ...common, RequestType: "Delete", PhysicalResourceId: `GSIManager-${tableName}` };
+  }
+};
+
+const run = async (options: RunOptions): Promise<void> => {
+  const tableName = String(options.props.tableName);
+  const client = createDynamoDBClient(options.clientSettings);
+  await ensureStateTable(client, options.stateTableName);
+  process.env[STATE_TABLE_NAME_ENV] = options.stateTableName;
+
+  const dependencies = createDefaultHandlerDependencies(options.clientSettings);
+  const onEvent = createOnEventHandler(dependencies);
+  const isComplete = createIsCompleteHandler(dependencies);
+  const describer = new DynamoDBGSIServiceImpl({ client, tracing: false });
+  const startedAt = Date.now();
+
+  const printProgress = async (label: string): Promise<void> => {
+    const indexes = await describer.getCurrentGSIs(tableName);
+    const statuses = indexes.map((index) => `${index.indexName}=${index.indexStatus}`).join(" ");
+    const elapsedSec = Math.round((Date.now() - startedAt) / 1000);
+    console.log(`[gsi-local-run] ${label} (${elapsedSec}s) ${statuses || "no GSIs"}`);
+  };
+
+  console.log(
+    `[gsi-local-run] ${options.requestType} ${tableName} at ${options.clientSettings.endpoint}`
+  );
+  const event = buildEvent(options);
+  const started = await onEvent(event);
+  await printProgress("started");
+
+  let data = started.Data;
+  if (!started.IsComplete) {
+    let completed = false;
+    for (let poll = 1; poll <= options.maxPolls && !completed; poll += 1) {
+      await sleep(options.intervalMs);
+      const response = await isComplete({
+        ...event,
+        PhysicalResourceId: started.PhysicalResourceId,
+      });
+      await printProgress(`poll ${poll}`);
+      completed = response.IsComplete;
+      data = response.Data;
+    }
+    if (!completed) {
+      throw new Error(`Operation did not complete within ${options.maxPolls} polls.`);
+    }
+  }
+
+  console.log("[gsi-local-run] complete");
+  console.log(JSON.stringify(data ?? {}, null, 2));
+};
+
+const main = async (): Promise<void> => {
+  const options = parseCommandLine(process.argv.slice(2));
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+  await run(options);
+};
+
+main().catch((error: unknown) => {
+  console.error(`[gsi-local-run] ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+// Prints the GSI operations a deployment would run, from a saved DescribeTable snapshot.
+// No AWS access is needed, so the output can be attached to a pull request.
+//
+//   aws dynamodb describe-table --table-name Orders > orders.json
+//   gsi-plan --table orders.json --config gsi-config.json [--previous-config old.json]
+//
+// The config file is either a GSIConfiguration[] or an object with the GsiManager
+// properties (globalSecondaryIndexes, unmanagedIndexPolicy, billingMode, ...).
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { planFromDescribeTable, renderPlan, toTableDescription } from "../lib/gsi-plan";
+
+const USAGE = `Usage: gsi-plan --table <describe-table.json> --config <config.json> [options]
+
+Options:
+  --previous-config <config.json>  Configuration of the last deployment, so indexes removed
+                                   from the configuration are planned for deletion
+  --json                           Print the planned operations as JSON instead of a diff
+  --detailed-exitcode              Exit with 2 when the plan contains changes
+  --help                           Show this message`;
+
+const readJson = (file: string): unknown => JSON.parse(readFileSync(file, "utf8"));
+
+const toConfig = (file: string): Record<string, unknown> => {
+  const parsed = readJson(file);
+  if (Array.isArray(parsed)) {
+    return { globalSecondaryIndexes: parsed };
+  }
+  if (typeof parsed === "object" && parsed !== null) {
+    return parsed as Record<string, unknown>;
+  }
+  throw new Error(`${file} must contain a GSIConfiguration[] or an object with globalSecondaryIndexes.`);
+};
+
+const main = (): number => {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      table: { type: "string" },
+      config: { type: "string" },
+      "previous-config": { type: "string" },
+      json: { type: "boolean", default: false },
+      "detailed-exitcode": { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.table || !values.config) {
+    throw new Error(`--table and --config are required.\n\n${USAGE}`);
+  }
+
+  const plan = planFromDescribeTable({
+    table: toTableDescription(readJson(values.table), values.table),
+    config: toConfig(values.config),
+    previousConfig: values["previous-config"] ? toConfig(values["previous-config"]) : undefined,
+  });
+  console.log(values.json ? JSON.stringify(plan, null, 2) : renderPlan(plan));
+
+  return values["detailed-exitcode"] && plan.operations.length > 0 ? 2 : 0;
+};
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(`gsi-plan: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
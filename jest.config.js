@@ -4,5 +4,9 @@ module.exports = {
   testMatch: ['**/*.test.ts'],
   transform: {
     '^.+\\.tsx?$': 'ts-jest'
+  },
+  moduleNameMapper: {
+    // Lambda sources use NodeNext-style ".js" specifiers for TypeScript files.
+    '^(\\.{1,2}/.*)\\.js$': '$1'
   }
 };
@@ -0,0 +1,82 @@
+// DynamoDB client settings (Lambda side).
+// Everything is optional: in Lambda the SDK defaults (execution role, AWS_REGION) apply.
+// The overrides exist so the handlers can be pointed at DynamoDB Local or another endpoint.
+
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+
+export const ENDPOINT_ENV = "GSI_MANAGER_DYNAMODB_ENDPOINT";
+export const REGION_ENV = "GSI_MANAGER_DYNAMODB_REGION";
+export const ACCESS_KEY_ID_ENV = "GSI_MANAGER_DYNAMODB_ACCESS_KEY_ID";
+export const SECRET_ACCESS_KEY_ENV = "GSI_MANAGER_DYNAMODB_SECRET_ACCESS_KEY";
+export const SESSION_TOKEN_ENV = "GSI_MANAGER_DYNAMODB_SESSION_TOKEN";
+export const MAX_ATTEMPTS_ENV = "GSI_MANAGER_DYNAMODB_MAX_ATTEMPTS";
+
+export interface DynamoDBClientSettings {
+  endpoint?: string;
+  region?: string;
+  // Static credentials; when omitted the SDK default provider chain is used.
+  credentials?: {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+  };
+  // SDK-level attempts per request, on top of retryWithBackoff in the service.
+  maxAttempts?: number;
+}
+
+const parseMaxAttempts = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(
+      `Environment variable ${MAX_ATTEMPTS_ENV} must be a positive integer, got "${value}".`
+    );
+  }
+  return parsed;
+};
+
+export const readClientSettingsFromEnv = (
+  env: NodeJS.ProcessEnv = process.env
+): DynamoDBClientSettings => {
+  const settings: DynamoDBClientSettings = {};
+
+  if (env[ENDPOINT_ENV]) {
+    settings.endpoint = env[ENDPOINT_ENV];
+  }
+  if (env[REGION_ENV]) {
+    settings.region = env[REGION_ENV];
+  }
+
+  const accessKeyId = env[ACCESS_KEY_ID_ENV];
+  const secretAccessKey = env[SECRET_ACCESS_KEY_ENV];
+  if (accessKeyId || secretAccessKey) {
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error(
+        `Environment variables ${ACCESS_KEY_ID_ENV} and ${SECRET_ACCESS_KEY_ENV} must be set together.`
+      );
+    }
+    settings.credentials = {
+      accessKeyId,
+      secretAccessKey,
+      ...(env[SESSION_TOKEN_ENV] ? { sessionToken: env[SESSION_TOKEN_ENV] } : {}),
+    };
+  }
+
+  if (env[MAX_ATTEMPTS_ENV]) {
+    settings.maxAttempts = parseMaxAttempts(env[MAX_ATTEMPTS_ENV]);
+  }
+
+  return settings;
+};
+
+// Explicit settings win over the environment, field by field.
+export const createDynamoDBClient = (
+  settings: DynamoDBClientSettings = {}
+): DynamoDBClient => {
+  const merged: DynamoDBClientSettings = {
+    ...readClientSettingsFromEnv(),
+    ...Object.fromEntries(
+      Object.entries(settings).filter(([, value]) => value !== undefined)
+    ),
+  };
+  return new DynamoDBClient(merged);
+};
@@ -3,24 +3,39 @@
 // focus on orchestration rather than raw AWS SDK calls.
 
 import {
+  DescribeContributorInsightsCommand,
   DescribeTableCommand,
   DynamoDBClient,
   KeySchemaElement,
   Projection,
+  UpdateContributorInsightsCommand,
   UpdateTableCommand,
   type AttributeDefinition as AwsAttributeDefinition,
   type GlobalSecondaryIndexUpdate,
   type DescribeTableCommandOutput,
   type GlobalSecondaryIndexDescription,
+  type TableDescription,
 } from "@aws-sdk/client-dynamodb";
 import type {
   AttributeDefinition,
+  BillingModeChange,
   ErrorHandlingConfig,
   GSIConfiguration,
   GSIInfo,
+  TableBillingMode,
+  WaiterConfig,
 } from "../../../lib/types/index.js";
 import { mergeErrorHandlingConfig } from "../../../lib/types/index.js";
+import {
+  createDynamoDBClient,
+  type DynamoDBClientSettings,
+} from "./client-config.js";
 import { retryWithBackoff } from "./error-handling.js";
+import {
+  isTracingEnabled,
+  traceDynamoDBCall,
+  type TraceAnnotations,
+} from "./tracing.js";
 
 const DEFAULT_WAITER_CONFIG = {
   initialDelayMs: 3_000,
@@ -30,25 +45,27 @@ const DEFAULT_WAITER_CONFIG = {
 
 const PROGRESS_LOG_INTERVAL_MS = 60_000;
 
-interface WaiterConfig {
-  initialDelayMs: number;
-  maxDelayMs: number;
-  timeoutMs: number;
-}
-
 export interface DynamoDBGSIServiceOptions {
   client?: DynamoDBClient;
+  // Used only when no client is given; merged over the GSI_MANAGER_DYNAMODB_* environment variables.
+  clientSettings?: DynamoDBClientSettings;
   errorHandling?: Partial<ErrorHandlingConfig>;
   waiter?: Partial<WaiterConfig>;
+  // Records an X-Ray subsegment per DynamoDB call; defaults to the handler environment.
+  tracing?: boolean;
 }
 
-type TableBillingMode = "PROVISIONED" | "PAY_PER_REQUEST";
-
 export interface DynamoDBGSIService {
   getCurrentGSIs(tableName: string): Promise<GSIInfo[]>;
+  // Key attributes of the base table and its LSIs; GSIs must not redeclare them with another type.
+  getTableKeyAttributes(tableName: string): Promise<AttributeDefinition[]>;
   createGSI(tableName: string, gsiConfig: GSIConfiguration): Promise<void>;
   updateGSI(tableName: string, gsiConfig: GSIConfiguration): Promise<void>;
   deleteGSI(tableName: string, indexName: string): Promise<void>;
+  getTableBillingMode(tableName: string): Promise<TableBillingMode>;
+  isContributorInsightsEnabled(tableName: string, indexName: string): Promise<boolean>;
+  // Switching to PROVISIONED must carry capacity for every existing index in the same call.
+  updateBillingMode(tableName: string, change: BillingModeChange): Promise<void>;
   waitForGSIStatus(
     tableName: string,
     indexName: string,
@@ -63,6 +80,10 @@ export interface DynamoDBGSIService {
     indexName: string,
     targetStatus: "ACTIVE" | "DELETED"
   ): Promise<boolean>;
+  isBillingModeApplied(
+    tableName: string,
+    billingMode: TableBillingMode
+  ): Promise<boolean>;
 }
 
 const sleep = async (ms: number): Promise<void> =>
@@ -125,14 +146,116 @@ const toProvisionedThroughput = (gsiConfig: GSIConfiguration) =>
       }
     : undefined;
 
+const toWarmThroughput = (gsiConfig: GSIConfiguration) =>
+  gsiConfig.warmThroughput
+    ? {
+        ReadUnitsPerSecond: gsiConfig.warmThroughput.readUnitsPerSecond,
+        WriteUnitsPerSecond: gsiConfig.warmThroughput.writeUnitsPerSecond,
+      }
+    : undefined;
+
+const toOnDemandThroughput = (gsiConfig: GSIConfiguration) =>
+  gsiConfig.onDemandThroughput
+    ? {
+        MaxReadRequestUnits: gsiConfig.onDemandThroughput.maxReadRequestUnits,
+        MaxWriteRequestUnits: gsiConfig.onDemandThroughput.maxWriteRequestUnits,
+      }
+    : undefined;
+
+// Pure mappings from a DescribeTable result. Exported so offline tools (gsi-plan) read a
+// saved `aws dynamodb describe-table` snapshot exactly the way the Lambda reads the table.
+export const toGSIInfos = (table: TableDescription | undefined): GSIInfo[] => {
+  if (!table?.GlobalSecondaryIndexes) {
+    return [];
+  }
+
+  // Key types live in the table-wide AttributeDefinitions, not in the index description.
+  const attributeTypes = new Map(
+    (table.AttributeDefinitions ?? []).map((attribute) => [
+      attribute.AttributeName,
+      attribute.AttributeType as AttributeDefinition["type"] | undefined,
+    ])
+  );
+
+  return table.GlobalSecondaryIndexes.map(
+    (gsi: GlobalSecondaryIndexDescription) => ({
+      indexName: gsi.IndexName ?? "",
+      keySchema:
+        gsi.KeySchema?.map((item: KeySchemaElement) => ({
+          attributeName: item.AttributeName ?? "",
+          keyType: item.KeyType ?? "HASH",
+          attributeType: attributeTypes.get(item.AttributeName),
+        })) ?? [],
+      projection: {
+        projectionType:
+          (gsi.Projection?.ProjectionType as "ALL" | "KEYS_ONLY" | "INCLUDE") ??
+          "ALL",
+        nonKeyAttributes: gsi.Projection?.NonKeyAttributes ?? undefined,
+      },
+      indexStatus: gsi.IndexStatus ?? undefined,
+      provisionedThroughput: gsi.ProvisionedThroughput
+        ? {
+            readCapacityUnits: gsi.ProvisionedThroughput.ReadCapacityUnits ?? 0,
+            writeCapacityUnits: gsi.ProvisionedThroughput.WriteCapacityUnits ?? 0,
+          }
+        : undefined,
+      warmThroughput: gsi.WarmThroughput
+        ? {
+            readUnitsPerSecond: gsi.WarmThroughput.ReadUnitsPerSecond,
+            writeUnitsPerSecond: gsi.WarmThroughput.WriteUnitsPerSecond,
+          }
+        : undefined,
+      onDemandThroughput: gsi.OnDemandThroughput
+        ? {
+            maxReadRequestUnits: gsi.OnDemandThroughput.MaxReadRequestUnits,
+            maxWriteRequestUnits: gsi.OnDemandThroughput.MaxWriteRequestUnits,
+          }
+        : undefined,
+    })
+  );
+};
+
+// Key attributes of the base table and its LSIs.
+export const toTableKeyAttributes = (
+  table: TableDescription | undefined
+): AttributeDefinition[] => {
+  const keyAttributeNames = new Set<string>();
+  [
+    table?.KeySchema,
+    ...(table?.LocalSecondaryIndexes ?? []).map((lsi) => lsi.KeySchema),
+  ].forEach((keySchema) =>
+    keySchema?.forEach((item) => {
+      if (item.AttributeName) {
+        keyAttributeNames.add(item.AttributeName);
+      }
+    })
+  );
+
+  return (table?.AttributeDefinitions ?? [])
+    .filter((attribute) => keyAttributeNames.has(attribute.AttributeName ?? ""))
+    .map((attribute) => ({
+      name: attribute.AttributeName ?? "",
+      type: attribute.AttributeType as AttributeDefinition["type"],
+    }));
+};
+
+// Tables created before on-demand existed have no BillingModeSummary and are PROVISIONED.
+export const toTableBillingMode = (
+  table: TableDescription | undefined
+): TableBillingMode =>
+  table?.BillingModeSummary?.BillingMode === "PAY_PER_REQUEST"
+    ? "PAY_PER_REQUEST"
+    : "PROVISIONED";
+
 export class DynamoDBGSIServiceImpl implements DynamoDBGSIService {
   private readonly client: DynamoDBClient;
   private readonly errorHandling: ErrorHandlingConfig;
   private readonly waiter: WaiterConfig;
+  private readonly tracing: boolean;
   private readonly tableBillingModeCache = new Map<string, TableBillingMode>();
 
   constructor(options: DynamoDBGSIServiceOptions = {}) {
-    this.client = options.client ?? new DynamoDBClient({});
+    this.client = options.client ?? createDynamoDBClient(options.clientSettings);
     this.errorHandling = mergeErrorHandlingConfig(options.errorHandling);
     this.waiter = {
       initialDelayMs:
@@ -142,47 +265,37 @@ export class DynamoDBGSIServiceImpl implements DynamoDBGSIService {
       timeoutMs:
         options.waiter?.timeoutMs ?? DEFAULT_WAITER_CONFIG.timeoutMs,
     };
+    this.tracing = options.tracing ?? isTracingEnabled();
   }
 
   async getCurrentGSIs(tableName: string): Promise<GSIInfo[]> {
     const output = await retryWithBackoff<DescribeTableCommandOutput>(
       () =>
-        this.client.send<DescribeTableCommandOutput>(
-          new DescribeTableCommand({ TableName: tableName })
+        this.send(
+          "DescribeTable",
+          { tableName },
+          () =>
+            this.client.send(new DescribeTableCommand({ TableName: tableName }))
         ),
       this.errorHandling
     );
 
-    const table = output.Table;
-    if (!table?.GlobalSecondaryIndexes) {
-      return [];
-    }
+    return toGSIInfos(output.Table);
+  }
 
-    return table.GlobalSecondaryIndexes.map(
-      (gsi: GlobalSecondaryIndexDescription) => ({
-        indexName: gsi.IndexName ?? "",
-        keySchema:
-          gsi.KeySchema?.map((item: KeySchemaElement) => ({
-            attributeName: item.AttributeName ?? "",
-            keyType: item.KeyType ?? "HASH",
-          })) ?? [],
-        projection: {
-          projectionType:
-            (gsi.Projection?.ProjectionType as "ALL" | "KEYS_ONLY" | "INCLUDE") ??
-            "ALL",
-          nonKeyAttributes: gsi.Projection?.NonKeyAttributes ?? undefined,
-        },
-        indexStatus: gsi.IndexStatus ?? undefined,
-        provisionedThroughput: gsi.ProvisionedThroughput
-          ? {
-              readCapacityUnits:
-                gsi.ProvisionedThroughput.ReadCapacityUnits ?? 0,
-              writeCapacityUnits:
-                gsi.ProvisionedThroughput.WriteCapacityUnits ?? 0,
-            }
-          : undefined,
-      })
+  async getTableKeyAttributes(tableName: string): Promise<AttributeDefinition[]> {
+    const output = await retryWithBackoff<DescribeTableCommandOutput>(
+      () =>
+        this.send(
+          "DescribeTable",
+          { tableName },
+          () =>
+            this.client.send(new DescribeTableCommand({ TableName: tableName }))
+        ),
+      this.errorHandling
     );
+
+    return toTableKeyAttributes(output.Table);
   }
 
   async createGSI(
@@ -194,6 +307,7 @@ export class DynamoDBGSIServiceImpl implements DynamoDBGSIService {
 
     const Projection = toProjection(gsiConfig);
     let ProvisionedThroughput = toProvisionedThroughput(gsiConfig);
+    let OnDemandThroughput = toOnDemandThroughput(gsiConfig);
 
     if (ProvisionedThroughput && (await this.isPayPerRequestTable(tableName))) {
       console.log(
@@ -202,23 +316,37 @@ export class DynamoDBGSIServiceImpl implements DynamoDBGSIService {
       ProvisionedThroughput = undefined;
     }
 
+    if (OnDemandThroughput && !(await this.isPayPerRequestTable(tableName))) {
+      console.log(
+        `[GSI Manager] Table "${tableName}" uses PROVISIONED; ignoring on-demand throughput for index "${gsiConfig.indexName}".`
+      );
+      OnDemandThroughput = undefined;
+    }
+
     const update: GlobalSecondaryIndexUpdate = {
       Create: {
         IndexName: gsiConfig.indexName,
         KeySchema,
         Projection,
         ProvisionedThroughput,
+        OnDemandThroughput,
+        WarmThroughput: toWarmThroughput(gsiConfig),
       },
     };
 
     await retryWithBackoff(
       () =>
-        this.client.send(
-          new UpdateTableCommand({
-            TableName: tableName,
-            AttributeDefinitions,
-            GlobalSecondaryIndexUpdates: [update],
-          })
+        this.send(
+          "UpdateTable",
+          { tableName, indexName: gsiConfig.indexName },
+          () =>
+            this.client.send(
+              new UpdateTableCommand({
+                TableName: tableName,
+                AttributeDefinitions,
+                GlobalSecondaryIndexUpdates: [update],
+              })
+            )
         ),
       this.errorHandling
     );
@@ -228,53 +356,178 @@ export class DynamoDBGSIServiceImpl implements DynamoDBGSIService {
     tableName: string,
     gsiConfig: GSIConfiguration
   ): Promise<void> {
-    if (!gsiConfig.provisionedThroughput) {
-      return;
-    }
+    // The planner only passes the settings that changed; DynamoDB rejects an update
+    // that repeats the current provisioned throughput.
+    let ProvisionedThroughput = toProvisionedThroughput(gsiConfig);
+    let OnDemandThroughput = toOnDemandThroughput(gsiConfig);
+    const WarmThroughput = toWarmThroughput(gsiConfig);
 
-    if (await this.isPayPerRequestTable(tableName)) {
+    if (ProvisionedThroughput && (await this.isPayPerRequestTable(tableName))) {
       console.log(
         `[GSI Manager] Table "${tableName}" uses PAY_PER_REQUEST; skipping throughput update for index "${gsiConfig.indexName}".`
       );
-      return;
+      ProvisionedThroughput = undefined;
     }
 
+    if (OnDemandThroughput && !(await this.isPayPerRequestTable(tableName))) {
+      console.log(
+        `[GSI Manager] Table "${tableName}" uses PROVISIONED; skipping on-demand throughput update for index "${gsiConfig.indexName}".`
+      );
+      OnDemandThroughput = undefined;
+    }
+
+    if (ProvisionedThroughput || OnDemandThroughput || WarmThroughput) {
+      const update: GlobalSecondaryIndexUpdate = {
+        Update: {
+          IndexName: gsiConfig.indexName,
+          ProvisionedThroughput,
+          OnDemandThroughput,
+          WarmThroughput,
+        },
+      };
+
+      await retryWithBackoff(
+        () =>
+          this.send(
+            "UpdateTable",
+            { tableName, indexName: gsiConfig.indexName },
+            () =>
+              this.client.send(
+                new UpdateTableCommand({
+                  TableName: tableName,
+                  GlobalSecondaryIndexUpdates: [update],
+                })
+              )
+          ),
+        this.errorHandling
+      );
+    }
+
+    // Contributor Insights is a separate API and requires the index to be ACTIVE; the
+    // planner therefore emits it as its own UPDATE after any capacity change.
+    if (gsiConfig.contributorInsights !== undefined) {
+      await retryWithBackoff(
+        () =>
+          this.send(
+            "UpdateContributorInsights",
+            { tableName, indexName: gsiConfig.indexName },
+            () =>
+              this.client.send(
+                new UpdateContributorInsightsCommand({
+                  TableName: tableName,
+                  IndexName: gsiConfig.indexName,
+                  ContributorInsightsAction: gsiConfig.contributorInsights
+                    ? "ENABLE"
+                    : "DISABLE",
+                })
+              )
+          ),
+        this.errorHandling
+      );
+    }
+  }
+
+  async deleteGSI(tableName: string, indexName: string): Promise<void> {
     const update: GlobalSecondaryIndexUpdate = {
-      Update: {
-        IndexName: gsiConfig.indexName,
-        ProvisionedThroughput: toProvisionedThroughput(gsiConfig),
+      Delete: {
+        IndexName: indexName,
       },
     };
 
     await retryWithBackoff(
       () =>
-        this.client.send(
-          new UpdateTableCommand({
-            TableName: tableName,
-            GlobalSecondaryIndexUpdates: [update],
-          })
+        this.send(
+          "UpdateTable",
+          { tableName, indexName },
+          () =>
+            this.client.send(
+              new UpdateTableCommand({
+                TableName: tableName,
+                GlobalSecondaryIndexUpdates: [update],
+              })
+            )
         ),
       this.errorHandling
     );
   }
 
-  async deleteGSI(tableName: string, indexName: string): Promise<void> {
-    const update: GlobalSecondaryIndexUpdate = {
-      Delete: {
-        IndexName: indexName,
-      },
-    };
+  async getTableBillingMode(tableName: string): Promise<TableBillingMode> {
+    const billingMode = await this.fetchTableBillingMode(tableName);
+    this.tableBillingModeCache.set(tableName, billingMode);
+    return billingMode;
+  }
+
+  async isContributorInsightsEnabled(
+    tableName: string,
+    indexName: string
+  ): Promise<boolean> {
+    const response = await retryWithBackoff(
+      () =>
+        this.send(
+          "DescribeContributorInsights",
+          { tableName, indexName },
+          () =>
+            this.client.send(
+              new DescribeContributorInsightsCommand({
+                TableName: tableName,
+                IndexName: indexName,
+              })
+            )
+        ),
+      this.errorHandling
+    );
+
+    const status = response.ContributorInsightsStatus;
+    return status === "ENABLED" || status === "ENABLING";
+  }
+
+  async updateBillingMode(
+    tableName: string,
+    change: BillingModeChange
+  ): Promise<void> {
+    const toThroughput = (throughput: {
+      readCapacityUnits: number;
+      writeCapacityUnits: number;
+    }) => ({
+      ReadCapacityUnits: throughput.readCapacityUnits,
+      WriteCapacityUnits: throughput.writeCapacityUnits,
+    });
+
+    const updates: GlobalSecondaryIndexUpdate[] =
+      change.to === "PROVISIONED"
+        ? Object.entries(change.indexProvisionedThroughput ?? {}).map(
+            ([indexName, throughput]) => ({
+              Update: {
+                IndexName: indexName,
+                ProvisionedThroughput: toThroughput(throughput),
+              },
+            })
+          )
+        : [];
 
     await retryWithBackoff(
       () =>
-        this.client.send(
-          new UpdateTableCommand({
-            TableName: tableName,
-            GlobalSecondaryIndexUpdates: [update],
-          })
+        this.send(
+          "UpdateTable",
+          { tableName },
+          () =>
+            this.client.send(
+              new UpdateTableCommand({
+                TableName: tableName,
+                BillingMode: change.to,
+                ProvisionedThroughput:
+                  change.to === "PROVISIONED" && change.tableProvisionedThroughput
+                    ? toThroughput(change.tableProvisionedThroughput)
+                    : undefined,
+                GlobalSecondaryIndexUpdates: updates.length > 0 ? updates : undefined,
+              })
+            )
         ),
       this.errorHandling
     );
+
+    // Later create/update calls must see the new mode, not the one cached before the switch.
+    this.tableBillingModeCache.delete(tableName);
   }
 
   async waitForGSIStatus(
@@ -331,8 +584,11 @@ export class DynamoDBGSIServiceImpl implements DynamoDBGSIService {
       // Ensures subsequent GSI operations are not started while the table is UPDATING.
       const response = await retryWithBackoff<DescribeTableCommandOutput>(
         () =>
-          this.client.send<DescribeTableCommandOutput>(
-            new DescribeTableCommand({ TableName: tableName })
+          this.send(
+            "DescribeTable",
+            { tableName },
+            () =>
+              this.client.send(new DescribeTableCommand({ TableName: tableName }))
           ),
         this.errorHandling
       );
@@ -369,8 +625,13 @@ export class DynamoDBGSIServiceImpl implements DynamoDBGSIService {
   async isTableActive(tableName: string): Promise<boolean> {
     const response = await retryWithBackoff(
       () =>
-        this.client.send(
-          new DescribeTableCommand({ TableName: tableName })
+        this.send(
+          "DescribeTable",
+          { tableName },
+          () =>
+            this.client.send(
+              new DescribeTableCommand({ TableName: tableName })
+            )
         ),
       this.errorHandling
     );
@@ -395,6 +656,40 @@ export class DynamoDBGSIServiceImpl implements DynamoDBGSIService {
     return match?.indexStatus === targetStatus;
   }
 
+  /**
+   * 課金モードの切り替えが完了しているか確認（待機なし）
+   * 切り替え中はテーブルと各 GSI が UPDATING になるため、すべて ACTIVE になるまで待つ
+   */
+  async isBillingModeApplied(
+    tableName: string,
+    billingMode: TableBillingMode
+  ): Promise<boolean> {
+    const response = await retryWithBackoff(
+      () =>
+        this.send(
+          "DescribeTable",
+          { tableName },
+          () =>
+            this.client.send(new DescribeTableCommand({ TableName: tableName }))
+        ),
+      this.errorHandling
+    );
+
+    const table = response.Table;
+    const currentMode =
+      table?.BillingModeSummary?.BillingMode === "PAY_PER_REQUEST"
+        ? "PAY_PER_REQUEST"
+        : "PROVISIONED";
+
+    return (
+      table?.TableStatus === "ACTIVE" &&
+      currentMode === billingMode &&
+      (table.GlobalSecondaryIndexes ?? []).every(
+        (gsi) => gsi.IndexStatus === "ACTIVE"
+      )
+    );
+  }
+
   private async isPayPerRequestTable(tableName: string): Promise<boolean> {
     const cached = this.tableBillingModeCache.get(tableName);
     if (cached) {
@@ -411,17 +706,25 @@ export class DynamoDBGSIServiceImpl implements DynamoDBGSIService {
   ): Promise<TableBillingMode> {
     const response = await retryWithBackoff<DescribeTableCommandOutput>(
       () =>
-        this.client.send<DescribeTableCommandOutput>(
-          new DescribeTableCommand({ TableName: tableName })
+        this.send(
+          "DescribeTable",
+          { tableName },
+          () =>
+            this.client.send(new DescribeTableCommand({ TableName: tableName }))
         ),
       this.errorHandling
     );
 
-    const mode =
-      response.Table?.BillingModeSummary?.BillingMode === "PAY_PER_REQUEST"
-        ? "PAY_PER_REQUEST"
-        : "PROVISIONED";
+    return toTableBillingMode(response.Table);
+  }
 
-    return mode;
+  // Each attempt inside retryWithBackoff gets its own subsegment, so throttled retries
+  // show up in the trace instead of being folded into one long call.
+  private send<T>(
+    operation: string,
+    annotations: TraceAnnotations,
+    call: () => Promise<T>
+  ): Promise<T> {
+    return this.tracing ? traceDynamoDBCall(operation, annotations, call) : call();
   }
 }
@@ -9,11 +9,22 @@
  */
 
 import type {
+  AutoScalingCapacity,
   ErrorHandlingConfig,
+  GSIAutoScaling,
   GSIConfiguration,
   GSIInfo,
   GSIManagerProps,
+  OnDemandThroughput,
+  ReplacementPolicy,
+  ReplacementStrategy,
+  TableBillingMode,
+  UnmanagedIndexPolicy,
+  WaiterConfig,
+  WarmThroughput,
 } from "../../../lib/types/index.js";
+import { DEFAULT_UNMANAGED_INDEX_POLICY } from "../../../lib/types/index.js";
+import { isVersionedIndexName, toLogicalIndexName } from "./index-naming.js";
 
 /**
  * オブジェクトから camelCase または PascalCase のプロパティ値を取得
@@ -69,6 +80,29 @@ const toArrayOfStrings = (value: unknown): string[] | undefined => {
   return values.length > 0 ? values : undefined;
 };
 
+/**
+ * unknown 型の値を boolean に変換
+ *
+ * CloudFormation はプロパティ値を文字列化して渡すため、
+ * `true` と `"true"` の両方を真として扱います。
+ *
+ * @param value - 変換対象の値
+ * @returns 真偽値（真と判定できない場合は false）
+ */
+const toBoolean = (value: unknown): boolean =>
+  value === true || value === "true";
+
+/**
+ * unknown 型の値を boolean に変換（未指定を区別）
+ *
+ * 「未指定（現在の設定を維持）」と「false（無効化）」を区別する必要がある設定に使用します。
+ *
+ * @param value - 変換対象の値
+ * @returns 真偽値、または undefined（値が存在しない場合）
+ */
+const toOptionalBoolean = (value: unknown): boolean | undefined =>
+  value === undefined ? undefined : toBoolean(value);
+
 /**
  * DynamoDB 属性定義をパース
  *
@@ -101,6 +135,117 @@ const parseAttribute = (
   };
 };
 
+/**
+ * unknown 型の値を数値に変換
+ *
+ * CloudFormation は数値も文字列化して渡すため、文字列からの変換を試みます。
+ * 変換できない値は NaN のまま返し、検証で検出させます。
+ *
+ * @param value - 変換対象の値
+ * @returns 数値、または undefined（値が存在しない場合）
+ */
+const toOptionalNumber = (value: unknown): number | undefined =>
+  typeof value === "number" ? value : value !== undefined ? Number(value) : undefined;
+
+/**
+ * ウォームスループット設定をパース
+ *
+ * 読み込み/書き込みのどちらか一方のみの指定も許可します。
+ *
+ * @param value - パース対象のウォームスループット設定
+ * @returns パースされたウォームスループット設定、または undefined（未指定の場合）
+ */
+const parseWarmThroughput = (value: unknown): WarmThroughput | undefined => {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  return {
+    readUnitsPerSecond: toOptionalNumber(pickVariant(record, "readUnitsPerSecond")),
+    writeUnitsPerSecond: toOptionalNumber(pickVariant(record, "writeUnitsPerSecond")),
+  };
+};
+
+/**
+ * オンデマンドスループット上限をパース
+ *
+ * 読み込み/書き込みのどちらか一方のみの指定も許可します。
+ *
+ * @param value - パース対象のオンデマンドスループット設定
+ * @returns パースされたオンデマンドスループット設定、または undefined（未指定の場合）
+ */
+const parseOnDemandThroughput = (
+  value: unknown
+): OnDemandThroughput | undefined => {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  return {
+    maxReadRequestUnits: toOptionalNumber(pickVariant(record, "maxReadRequestUnits")),
+    maxWriteRequestUnits: toOptionalNumber(pickVariant(record, "maxWriteRequestUnits")),
+  };
+};
+
+/**
+ * Auto Scaling 設定をパース
+ *
+ * スケーラブルターゲットは Construct が作成するため、Lambda 側では検証と
+ * スループット UPDATE の抑止にのみ使用します。
+ *
+ * @param value - パース対象の Auto Scaling 設定
+ * @returns パースされた Auto Scaling 設定、または undefined（未指定の場合）
+ */
+const parseAutoScaling = (value: unknown): GSIAutoScaling | undefined => {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  const parseCapacity = (capacity: unknown): AutoScalingCapacity | undefined => {
+    if (!capacity || typeof capacity !== "object") {
+      return undefined;
+    }
+
+    const capacityRecord = capacity as Record<string, unknown>;
+    return {
+      minCapacity: Number(pickVariant(capacityRecord, "minCapacity")),
+      maxCapacity: Number(pickVariant(capacityRecord, "maxCapacity")),
+      targetUtilizationPercent: Number(
+        pickVariant(capacityRecord, "targetUtilizationPercent")
+      ),
+    };
+  };
+
+  return {
+    read: parseCapacity(pickVariant(record, "read")),
+    write: parseCapacity(pickVariant(record, "write")),
+  };
+};
+
+/**
+ * 待機設定をパース
+ *
+ * 未指定の項目はサービス側の既定値を使用するため undefined のまま残します。
+ *
+ * @param value - パース対象の待機設定
+ * @returns パースされた待機設定、または undefined（未指定の場合）
+ */
+const parseWaiterConfig = (value: unknown): Partial<WaiterConfig> | undefined => {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  return {
+    initialDelayMs: toOptionalNumber(pickVariant(record, "initialDelayMs")),
+    maxDelayMs: toOptionalNumber(pickVariant(record, "maxDelayMs")),
+    timeoutMs: toOptionalNumber(pickVariant(record, "timeoutMs")),
+  };
+};
+
 /**
  * プロビジョンドスループット設定をパース
  *
@@ -120,14 +265,8 @@ const parseProvisionedThroughput = (value: unknown) => {
   const write = pickVariant(record, "writeCapacityUnits");
 
   // 文字列で渡される可能性もあるため、数値への変換を試みる
-  const readCapacityUnits =
-    typeof read === "number" ? read : read !== undefined ? Number(read) : undefined;
-  const writeCapacityUnits =
-    typeof write === "number"
-      ? write
-      : write !== undefined
-        ? Number(write)
-        : undefined;
+  const readCapacityUnits = toOptionalNumber(read);
+  const writeCapacityUnits = toOptionalNumber(write);
 
   // 両方の値が必須
   if (readCapacityUnits === undefined || writeCapacityUnits === undefined) {
@@ -171,6 +310,12 @@ const parseGsiConfigs = (value: unknown): GSIConfiguration[] => {
     const sortKey = pickVariant(record, "sortKey");
 
     const indexNameValue = pickVariant(record, "indexName");
+    const replacementPolicyValue = pickVariant(record, "replacementPolicy");
+    const replacementStrategyValue = pickVariant(record, "replacementStrategy");
+    const replacementTokenValue = pickVariant(
+      record,
+      "replacementConfirmationToken"
+    );
     return {
       indexName:
         typeof indexNameValue === "string" ? indexNameValue : "",
@@ -181,6 +326,25 @@ const parseGsiConfigs = (value: unknown): GSIConfiguration[] => {
       provisionedThroughput: parseProvisionedThroughput(
         pickVariant(record, "provisionedThroughput")
       ),
+      warmThroughput: parseWarmThroughput(pickVariant(record, "warmThroughput")),
+      onDemandThroughput: parseOnDemandThroughput(
+        pickVariant(record, "onDemandThroughput")
+      ),
+      autoScaling: parseAutoScaling(pickVariant(record, "autoScaling")),
+      contributorInsights: toOptionalBoolean(pickVariant(record, "contributorInsights")),
+      // 不正な値も保持し、validateGsiConfigurations で検出させる（黙って allow 扱いにしない）
+      replacementPolicy:
+        typeof replacementPolicyValue === "string"
+          ? (replacementPolicyValue as ReplacementPolicy)
+          : undefined,
+      replacementConfirmationToken:
+        typeof replacementTokenValue === "string"
+          ? replacementTokenValue
+          : undefined,
+      replacementStrategy:
+        typeof replacementStrategyValue === "string"
+          ? (replacementStrategyValue as ReplacementStrategy)
+          : undefined,
     };
   });
 };
@@ -199,6 +363,8 @@ export const parseManagerProps = (
 ): GSIManagerProps => {
   const tableNameSource = pickVariant(props, "tableName");
   const errorHandlingSource = pickVariant(props, "errorHandling");
+  const billingModeSource = pickVariant(props, "billingMode");
+  const unmanagedIndexPolicySource = pickVariant(props, "unmanagedIndexPolicy");
 
   return {
     tableName: typeof tableNameSource === "string" ? tableNameSource : "",
@@ -209,6 +375,23 @@ export const parseManagerProps = (
       errorHandlingSource && typeof errorHandlingSource === "object"
         ? (errorHandlingSource as Partial<ErrorHandlingConfig>)
         : undefined,
+    dryRun: toBoolean(pickVariant(props, "dryRun")),
+    // 不正な値も保持し、検証で検出させる（既定値に黙って置き換えない）
+    unmanagedIndexPolicy:
+      typeof unmanagedIndexPolicySource === "string"
+        ? (unmanagedIndexPolicySource as UnmanagedIndexPolicy)
+        : undefined,
+    billingMode:
+      typeof billingModeSource === "string"
+        ? (billingModeSource as TableBillingMode)
+        : undefined,
+    tableProvisionedThroughput: parseProvisionedThroughput(
+      pickVariant(props, "tableProvisionedThroughput")
+    ),
+    waiter: parseWaiterConfig(pickVariant(props, "waiter")),
+    operationTimeoutSeconds: toOptionalNumber(
+      pickVariant(props, "operationTimeoutSeconds")
+    ),
   };
 };
 
@@ -237,21 +420,31 @@ export const collectManagedNames = (
  *
  * DynamoDB テーブルの現在の GSI を分析し、以下を判断します：
  * 1. 管理対象の GSI（構成に含まれる）
- * 2. 管理されていない GSI（レガシー/手動作成）
- * 3. Update/Delete 時にレガシー GSI を採用するかどうか
+ * 2. 管理されていない GSI（レガシー/手動作成、他スタック所有など）
+ * 3. 非管理 GSI を `unmanagedIndexPolicy` に従ってどう扱うか
  *
- * Update/Delete の場合、管理されていない GSI もクリーンアップ対象に含めます。
- * これにより、手動作成された GSI も適切に削除できます。
+ * ポリシーごとの挙動：
+ * - `retain`（デフォルト）: 非管理 GSI は操作対象から除外し、そのまま残す
+ * - `adopt`: Update/Delete 時に非管理 GSI も採用し、クリーンアップ（削除）対象に含める
+ * - `fail`: Create/Update 時に非管理 GSI が存在する場合はエラーにする
+ *   （Delete 時はスタック削除を妨げないよう `retain` と同様に扱う）
  *
  * @param requestType - リクエストの種類（Create, Update, Delete）
  * @param current - 現在の GSI 状態
  * @param managedNames - 管理対象の GSI 名の Set
- * @returns 操作候補の GSI と採用フラグ
+ * @param policy - 非管理 GSI の扱い（省略時は `retain`）
+ * @param ownedVersionedIndexNames - このリソースが作成したバージョン付き GSI の物理名。
+ *   指定した場合、論理名が管理対象でもここに含まれないバージョン付き GSI（手動で作成した
+ *   GSI1__v2 など）は非管理として扱う。所有の記録がない場合は省略し、論理名のみで判定する
+ * @returns 操作候補の GSI、採用フラグ、除外した GSI 名
+ * @throws `fail` ポリシーで非管理 GSI が見つかった場合にエラーをスロー
  */
 export const resolveCurrentForPlanning = (
   requestType: "Create" | "Update" | "Delete",
   current: GSIInfo[],
-  managedNames: Set<string>
+  managedNames: Set<string>,
+  policy: UnmanagedIndexPolicy = DEFAULT_UNMANAGED_INDEX_POLICY,
+  ownedVersionedIndexNames?: ReadonlySet<string>
 ): {
   /** 操作対象の GSI 候補 */
   candidates: GSIInfo[];
@@ -259,30 +452,42 @@ export const resolveCurrentForPlanning = (
   adoptedLegacyIndexes: boolean;
   /** 管理されていない GSI の数 */
   untrackedCount: number;
+  /** 操作対象から除外した（そのまま残す）非管理 GSI の名前 */
+  unmanagedIndexNames: string[];
 } => {
-  // 管理対象が空の場合、すべての GSI を対象とする
-  if (managedNames.size === 0) {
-    return {
-      candidates: current,
-      adoptedLegacyIndexes: requestType !== "Create" && current.length > 0,
-      untrackedCount: current.length,
-    };
-  }
-
   const tracked: GSIInfo[] = [];
   const untracked: GSIInfo[] = [];
 
   // GSI を管理対象と非管理対象に分類
+  // blue/green のバージョン付き物理名（GSI1__v2 など）は論理名で判定し、
+  // 所有の記録がある場合はこのリソースが作成したものに限る
+  const isOwned = (name: string) =>
+    !ownedVersionedIndexNames ||
+    !isVersionedIndexName(name) ||
+    ownedVersionedIndexNames.has(name);
   for (const gsi of current) {
-    if (managedNames.has(gsi.indexName)) {
+    if (managedNames.has(toLogicalIndexName(gsi.indexName)) && isOwned(gsi.indexName)) {
       tracked.push(gsi);
     } else {
       untracked.push(gsi);
     }
   }
 
-  // Update/Delete 時は、管理されていない GSI も採用してクリーンアップ
+  if (
+    policy === "fail" &&
+    requestType !== "Delete" &&
+    untracked.length > 0
+  ) {
+    throw new Error(
+      `Table has ${untracked.length} GSI(s) not managed by this resource: ${untracked
+        .map((gsi) => gsi.indexName)
+        .join(", ")}. Add them to globalSecondaryIndexes or change unmanagedIndexPolicy.`
+    );
+  }
+
+  // adopt ポリシーの Update/Delete 時のみ、管理されていない GSI も採用してクリーンアップ
   const shouldAdopt =
+    policy === "adopt" &&
     (requestType === "Update" || requestType === "Delete") &&
     untracked.length > 0;
 
@@ -290,5 +495,8 @@ export const resolveCurrentForPlanning = (
     candidates: shouldAdopt ? current : tracked,
     adoptedLegacyIndexes: shouldAdopt,
     untrackedCount: untracked.length,
+    unmanagedIndexNames: shouldAdopt
+      ? []
+      : untracked.map((gsi) => gsi.indexName),
   };
 };
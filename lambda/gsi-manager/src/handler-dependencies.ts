@@ -0,0 +1,55 @@
+/**
+ * ハンドラーの依存関係
+ *
+ * onEventHandler / isCompleteHandler が使用する DynamoDB GSI サービスと操作状態ストアを
+ * 差し替えられるようにまとめたものです。Lambda では既定の実装（AWS SDK）を使用し、
+ * テストではインメモリの実装を渡してネットワークなしでフロー全体を実行できます。
+ */
+
+import type { GSIManagerProps } from "../../../lib/types/index.js";
+import { mergeErrorHandlingConfig } from "../../../lib/types/index.js";
+import {
+  createDynamoDBClient,
+  type DynamoDBClientSettings,
+} from "./client-config.js";
+import {
+  DynamoDBGSIServiceImpl,
+  type DynamoDBGSIService,
+} from "./dynamodb-gsi-service.js";
+import {
+  createOperationStateStoreFromEnv,
+  type OperationStateStore,
+} from "./operation-state-store.js";
+
+export interface HandlerDependencies {
+  /** リクエストごとに、パース済みのプロパティから GSI サービスを生成する */
+  createService(props: GSIManagerProps): DynamoDBGSIService;
+  /** 操作状態ストアを取得する（非同期パターンでのみ使用） */
+  getStateStore(): OperationStateStore;
+}
+
+/**
+ * AWS SDK を使用する既定の依存関係を生成
+ *
+ * DynamoDB クライアントは呼び出し間で再利用し、状態ストアは初回使用時に
+ * 環境変数のテーブル名から生成します。
+ *
+ * @param clientSettings - エンドポイント・リージョン・認証情報などの上書き。
+ *   指定しない項目は `GSI_MANAGER_DYNAMODB_*` 環境変数、さらに SDK の既定値が使われます
+ */
+export const createDefaultHandlerDependencies = (
+  clientSettings: DynamoDBClientSettings = {}
+): HandlerDependencies => {
+  const client = createDynamoDBClient(clientSettings);
+  let stateStore: OperationStateStore | undefined;
+
+  return {
+    createService: (props) =>
+      new DynamoDBGSIServiceImpl({
+        client,
+        errorHandling: mergeErrorHandlingConfig(props.errorHandling),
+        waiter: props.waiter,
+      }),
+    getStateStore: () => (stateStore ??= createOperationStateStoreFromEnv(client)),
+  };
+};
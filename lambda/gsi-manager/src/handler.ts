@@ -7,23 +7,51 @@
  * 2. 非同期パターン (onEventHandler): 操作を開始して即座に返却し、isCompleteHandlerでポーリング
  */
 
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import {
   GSIOperation,
   GSIOperationResult,
-  validateGsiConfigurations,
-  mergeErrorHandlingConfig,
+  collectGsiConfigurationIssues,
+  collectPlannedOperationIssues,
+  formatGsiValidationIssue,
   ErrorHandlingConfig,
   OnEventResponse,
   GSIInfo,
+  GSIManagerProps,
 } from "../../../lib/types/index.js";
-import { DynamoDBGSIServiceImpl } from "./dynamodb-gsi-service.js";
+import type { DynamoDBGSIService } from "./dynamodb-gsi-service.js";
 import {
   collectManagedNames,
   parseManagerProps,
   resolveCurrentForPlanning,
 } from "./gsi-config-utils.js";
-import { planGsiOperations } from "./operation-planner.js";
+import {
+  isVersionedIndexName,
+  toLogicalIndexName,
+  toPhysicalIndexNameData,
+} from "./index-naming.js";
+import {
+  canResume,
+  computeConfigurationHash,
+  createInitialState,
+  getLastActivityTime,
+  isAllOperationsComplete,
+  markCurrentOperationStarted,
+} from "./operation-state.js";
+import {
+  createDefaultHandlerDependencies,
+  type HandlerDependencies,
+} from "./handler-dependencies.js";
+import {
+  toResourceKey,
+  type OperationStateStore,
+} from "./operation-state-store.js";
+import type { BillingModePlanningInput } from "./operation-planner.js";
+import {
+  computeReplacementToken,
+  findBlockedReplacements,
+  planGsiOperations,
+  resolvePhysicalIndexNames,
+} from "./operation-planner.js";
 
 /** CloudFormation カスタムリソースのリクエストタイプ */
 type CloudFormationRequestType = "Create" | "Update" | "Delete";
@@ -90,7 +118,7 @@ export interface CloudFormationCustomResourceDeleteEvent
  * CloudFormation カスタムリソースイベントの統合型
  * Create, Update, Delete のいずれかのイベント
  */
-type CloudFormationCustomResourceEvent =
+export type CloudFormationCustomResourceEvent =
   | CloudFormationCustomResourceCreateEvent
   | CloudFormationCustomResourceUpdateEvent
   | CloudFormationCustomResourceDeleteEvent;
@@ -106,8 +134,8 @@ interface HandlerResponse {
   Data?: Record<string, unknown>;
 }
 
-/** DynamoDB クライアントのシングルトンインスタンス */
-const client = new DynamoDBClient({});
+/** Lambda で使用する既定の依存関係（DynamoDB クライアントは呼び出し間で再利用） */
+const defaultDependencies = createDefaultHandlerDependencies();
 
 /**
  * 物理リソースIDを取得または生成
@@ -125,6 +153,280 @@ const ensurePhysicalId = (
     ? event.PhysicalResourceId
     : `GSIManager-${event.ResourceProperties["tableName"] ?? "UnknownTable"}`;
 
+/**
+ * GSI 構成を検証
+ *
+ * Construct が synth 時に Annotations として報告するものと同じメッセージを使用します。
+ * 実行時は DescribeTable から取得したベーステーブルのキー属性とも型の衝突を確認します。
+ * 警告はログに出力し、エラーがあればデプロイを失敗させます。
+ *
+ * @param props - パース済みの GSI マネージャープロパティ
+ * @param service - DynamoDB GSI サービスインスタンス
+ * @throws GSI 構成が無効な場合にエラーをスロー
+ */
+const assertValidConfiguration = async (
+  props: GSIManagerProps,
+  service: DynamoDBGSIService
+): Promise<void> => {
+  const tableAttributes = await service.getTableKeyAttributes(props.tableName);
+  const issues = collectGsiConfigurationIssues(props.globalSecondaryIndexes, {
+    tableAttributes,
+    billingMode: props.billingMode,
+    tableProvisionedThroughput: props.tableProvisionedThroughput,
+    unmanagedIndexPolicy: props.unmanagedIndexPolicy,
+  });
+  issues
+    .filter((issue) => issue.severity === "warning")
+    .forEach((issue) =>
+      console.log(`[GSI Manager] Warning: ${formatGsiValidationIssue(issue)}`)
+    );
+
+  const errors = issues
+    .filter((issue) => issue.severity === "error")
+    .map(formatGsiValidationIssue);
+  if (errors.length > 0) {
+    throw new Error(["Invalid GSI configuration detected:", ...errors].join("\n- "));
+  }
+};
+
+/**
+ * 操作計画を現在のテーブルに対して検証
+ *
+ * 既存の GSI（`retain` ポリシーで残す非管理 GSI を含む）は削除されるまで
+ * AttributeDefinitions を保持するため、各 CREATE のキー属性の型がその時点で
+ * 残っている既存 GSI と一致することを確認します。
+ * また、計画の各時点でテーブルに存在する GSI（残す非管理 GSI と blueGreen の新インデックスを含む）が
+ * 上限の 20 個を超えないことを確認します。
+ *
+ * @param current - 現在の GSI 情報（非管理 GSI を含むすべて）
+ * @param operations - 計画された操作
+ * @throws 計画が DynamoDB に拒否される場合にエラーをスロー
+ */
+const assertValidPlan = (current: GSIInfo[], operations: GSIOperation[]): void => {
+  const errors = collectPlannedOperationIssues(current, operations).map(
+    formatGsiValidationIssue
+  );
+  if (errors.length > 0) {
+    throw new Error(["Invalid GSI configuration detected:", ...errors].join("\n- "));
+  }
+};
+
+/**
+ * Contributor Insights の現在の状態を GSI 情報に付加
+ *
+ * DescribeTable には含まれないため、構成で `contributorInsights` を指定した
+ * インデックスについてのみ DescribeContributorInsights で取得します。
+ *
+ * @param props - パース済みの GSI マネージャープロパティ
+ * @param current - 現在の GSI 情報
+ * @param service - DynamoDB GSI サービスインスタンス
+ * @returns Contributor Insights の状態を付加した GSI 情報
+ */
+const withContributorInsights = async (
+  props: GSIManagerProps,
+  current: GSIInfo[],
+  service: DynamoDBGSIService
+): Promise<GSIInfo[]> => {
+  const targets = new Set(
+    props.globalSecondaryIndexes
+      .filter((config) => config.contributorInsights !== undefined)
+      .map((config) => config.indexName)
+  );
+
+  return Promise.all(
+    current.map(async (gsi) =>
+      targets.has(toLogicalIndexName(gsi.indexName))
+        ? {
+            ...gsi,
+            contributorInsights: await service.isContributorInsightsEnabled(
+              props.tableName,
+              gsi.indexName
+            ),
+          }
+        : gsi
+    )
+  );
+};
+
+/**
+ * 課金モードの計画入力を解決
+ *
+ * `billingMode` が指定されている場合のみ現在の課金モードを取得します。
+ *
+ * @param props - パース済みの GSI マネージャープロパティ
+ * @param service - DynamoDB GSI サービスインスタンス
+ * @param unmanagedIndexNames - 操作対象から除外した非管理 GSI の名前
+ * @returns プランナーに渡す課金モード入力、または undefined（課金モードを管理しない場合）
+ */
+const resolveBillingModeInput = async (
+  props: GSIManagerProps,
+  service: DynamoDBGSIService,
+  unmanagedIndexNames: string[]
+): Promise<BillingModePlanningInput | undefined> =>
+  props.billingMode
+    ? {
+        current: await service.getTableBillingMode(props.tableName),
+        desired: props.billingMode,
+        tableProvisionedThroughput: props.tableProvisionedThroughput,
+        unmanagedIndexNames,
+      }
+    : undefined;
+
+/**
+ * 操作対象から除外した非管理 GSI をログに出力
+ *
+ * @param unmanagedIndexNames - 除外した非管理 GSI の名前
+ */
+const logUnmanagedIndexes = (unmanagedIndexNames: string[]): void => {
+  if (unmanagedIndexNames.length === 0) {
+    return;
+  }
+
+  console.log(
+    `[GSI Manager] Leaving ${unmanagedIndexNames.length} unmanaged GSI(s) untouched: ${unmanagedIndexNames.join(", ")}.`
+  );
+};
+
+/**
+ * replacementPolicy で承認されていない置換が計画に含まれていないか検証
+ *
+ * キースキーマや Projection の変更による削除・再作成は、大きなテーブルでは
+ * 長時間インデックスが利用できなくなるため、明示的に承認されたもののみ実行します。
+ *
+ * @param operations - 計画された GSI 操作のリスト
+ * @throws 承認されていない置換が含まれる場合にエラーをスロー
+ */
+const assertReplacementsApproved = (operations: GSIOperation[]): void => {
+  const blocked = findBlockedReplacements(operations);
+  if (blocked.length > 0) {
+    throw new Error(
+      ["GSI replacement was not approved:", ...blocked].join("\n- ")
+    );
+  }
+};
+
+/**
+ * ドライランの Data の上限（バイト）
+ *
+ * カスタムリソースの応答は全体で 4KB までのため、StackId や PhysicalResourceId などの
+ * 他のフィールドの分を残した値にしています。
+ */
+const MAX_DRY_RUN_DATA_BYTES = 3072;
+
+/**
+ * ドライラン結果のレスポンスデータを生成
+ *
+ * 計画された操作（種類・インデックス名・理由）をログに出力し、
+ * カスタムリソースの Data として返却できる形式に変換します。
+ * GSI の作成・更新・削除は一切行いません。
+ * Data が上限を超える場合は `plannedOperations` / `blockedReplacements` を先頭から
+ * 収まる件数に切り詰め（それでも超える場合は `physicalIndexNames` も省略し）、
+ * `plannedOperationsTruncated` を設定して計画全体はログに出力します。
+ * `physicalIndexName.*` は Fn::GetAtt で参照されるため切り詰めません。
+ *
+ * @param props - パース済みの GSI マネージャープロパティ
+ * @param operations - 計画された GSI 操作のリスト
+ * @param unmanagedIndexNames - 操作対象から除外した非管理 GSI の名前
+ * @param current - 計画時点の GSI 状態（論理名と物理名の対応に使用）
+ * @returns カスタムリソースの Data に設定する値
+ */
+const buildDryRunData = (
+  props: GSIManagerProps,
+  operations: GSIOperation[],
+  unmanagedIndexNames: string[],
+  current: GSIInfo[]
+): Record<string, unknown> => {
+  const plannedOperations = operations.map((operation) => ({
+    type: operation.type,
+    indexName: operation.indexName,
+    reason: operation.reason ?? "",
+    ...(operation.replacement &&
+    operation.type === "CREATE" &&
+    operation.desiredConfiguration
+      ? {
+          replacementConfirmationToken: computeReplacementToken(
+            operation.desiredConfiguration
+          ),
+        }
+      : {}),
+  }));
+  const blockedReplacements = findBlockedReplacements(operations);
+
+  console.log(
+    `[GSI Manager][dryRun] Planned ${operations.length} GSI operation(s) (table=${props.tableName}); no changes will be applied.`
+  );
+  plannedOperations.forEach((operation, index) => {
+    console.log(
+      `[GSI Manager][dryRun][${index + 1}/${operations.length}] ${operation.type} ${operation.indexName}: ${operation.reason}`
+    );
+  });
+  blockedReplacements.forEach((message) => {
+    console.log(`[GSI Manager][dryRun] Replacement would be rejected: ${message}`);
+  });
+
+  const physicalIndexNameData = toPhysicalIndexNameData(
+    resolvePhysicalIndexNames(current, props.globalSecondaryIndexes)
+  );
+  const buildData = (
+    shownOperations: typeof plannedOperations,
+    shownBlockedReplacements: string[],
+    includeIndexNameMap: boolean
+  ): Record<string, unknown> => {
+    const truncated =
+      shownOperations.length < plannedOperations.length ||
+      shownBlockedReplacements.length < blockedReplacements.length ||
+      !includeIndexNameMap;
+    const { physicalIndexNames, ...physicalIndexNameAttributes } = physicalIndexNameData;
+    return {
+      dryRun: true,
+      operationsExecuted: 0,
+      operationsPlanned: operations.length,
+      plannedOperations: JSON.stringify(shownOperations),
+      blockedReplacements: JSON.stringify(shownBlockedReplacements),
+      ...(truncated ? { plannedOperationsTruncated: true } : {}),
+      managedIndexes: props.globalSecondaryIndexes
+        .map((gsi) => gsi.indexName)
+        .join(","),
+      unmanagedIndexes: unmanagedIndexNames.join(","),
+      ...(includeIndexNameMap ? { physicalIndexNames } : {}),
+      ...physicalIndexNameAttributes,
+    };
+  };
+
+  // 上限に収まるまで、操作計画、拒否される置換の順に末尾から減らし、
+  // それでも超える場合は physicalIndexName.* と重複する physicalIndexNames を省く
+  const shownOperations = [...plannedOperations];
+  const shownBlockedReplacements = [...blockedReplacements];
+  let includeIndexNameMap = true;
+  const isOverLimit = (data: Record<string, unknown>) =>
+    Buffer.byteLength(JSON.stringify(data)) > MAX_DRY_RUN_DATA_BYTES;
+  let data = buildData(shownOperations, shownBlockedReplacements, includeIndexNameMap);
+  while (isOverLimit(data) && includeIndexNameMap) {
+    if (shownOperations.length > 0) {
+      shownOperations.pop();
+    } else if (shownBlockedReplacements.length > 0) {
+      shownBlockedReplacements.pop();
+    } else {
+      includeIndexNameMap = false;
+    }
+    data = buildData(shownOperations, shownBlockedReplacements, includeIndexNameMap);
+  }
+
+  if (data.plannedOperationsTruncated) {
+    console.log(
+      `[GSI Manager][dryRun] The plan exceeds the custom resource response limit; Data shows ${shownOperations.length} of ${plannedOperations.length} operation(s). Full plan: ${JSON.stringify(
+        { plannedOperations, blockedReplacements }
+      )}`
+    );
+  }
+  if (isOverLimit(data)) {
+    console.warn(
+      `[GSI Manager][dryRun] Data is still ${Buffer.byteLength(JSON.stringify(data))} bytes without the plan; the index names alone may exceed the custom resource response limit.`
+    );
+  }
+  return data;
+};
+
 /**
  * GSI 操作を順次実行
  *
@@ -139,7 +441,7 @@ const ensurePhysicalId = (
 const executeOperations = async (
   tableName: string,
   operations: GSIOperation[],
-  service: DynamoDBGSIServiceImpl
+  service: DynamoDBGSIService
 ): Promise<GSIOperationResult[]> => {
   const total = operations.length;
   const startTime = Date.now();
@@ -166,6 +468,17 @@ const executeOperations = async (
       `[GSI Manager][start ${displayIndex}/${total}] ${operation.type} ${operation.indexName}`
     );
 
+    if (operation.type === "UPDATE_BILLING_MODE" && operation.billingModeChange) {
+      await service.updateBillingMode(tableName, operation.billingModeChange);
+      await service.waitForTableActive(tableName);
+      results.push({
+        success: true,
+        operation: operation.type,
+        indexName: operation.indexName,
+      });
+      continue;
+    }
+
     if (operation.type === "DELETE") {
       await service.deleteGSI(tableName, operation.indexName);
       await service.waitForTableActive(tableName);
@@ -238,23 +551,17 @@ const executeOperations = async (
  * Update の場合は、削除された GSI も検出して削除します。
  *
  * @param event - CloudFormation の Create または Update イベント
+ * @param deps - GSI サービスと操作状態ストア
  * @returns ハンドラーレスポンス（物理ID と実行結果データ）
  * @throws GSI 構成が無効な場合にエラーをスロー
  */
 const handleCreateOrUpdate = async (
-  event: CloudFormationCustomResourceCreateEvent | CloudFormationCustomResourceUpdateEvent
+  event: CloudFormationCustomResourceCreateEvent | CloudFormationCustomResourceUpdateEvent,
+  deps: HandlerDependencies
 ): Promise<HandlerResponse> => {
   const props = parseManagerProps(event.ResourceProperties);
-  const errors = validateGsiConfigurations(props.globalSecondaryIndexes);
-  if (errors.length > 0) {
-    throw new Error(["Invalid GSI configuration detected:", ...errors].join("\n- "));
-  }
-
-  const errorHandling = mergeErrorHandlingConfig(props.errorHandling);
-  const service = new DynamoDBGSIServiceImpl({
-    client,
-    errorHandling,
-  });
+  const service = deps.createService(props);
+  await assertValidConfiguration(props, service);
 
   // Update イベントの場合、削除された GSI を検出するために
   // 現在と以前の管理対象 GSI の両方を追跡する必要がある
@@ -272,16 +579,35 @@ const handleCreateOrUpdate = async (
     candidates: managedCurrent,
     adoptedLegacyIndexes,
     untrackedCount,
-  } = resolveCurrentForPlanning(event.RequestType, current, managedNames);
+    unmanagedIndexNames,
+  } = resolveCurrentForPlanning(
+    event.RequestType,
+    current,
+    managedNames,
+    props.unmanagedIndexPolicy
+  );
   if (adoptedLegacyIndexes) {
     console.log(
       `[GSI Manager] Detected ${untrackedCount} pre-existing GSI(s) not present in configuration; treating them as managed for cleanup.`
     );
   }
+  logUnmanagedIndexes(unmanagedIndexNames);
   const operations = planGsiOperations(
-    managedCurrent,
-    props.globalSecondaryIndexes
+    await withContributorInsights(props, managedCurrent, service),
+    props.globalSecondaryIndexes,
+    await resolveBillingModeInput(props, service, unmanagedIndexNames),
+    unmanagedIndexNames
   );
+  assertValidPlan(current, operations);
+  if (props.dryRun) {
+    return {
+      PhysicalResourceId: ensurePhysicalId(event),
+      Data: buildDryRunData(props, operations, unmanagedIndexNames, current),
+    };
+  }
+
+  assertReplacementsApproved(operations);
+
   if (operations.length === 0) {
     return {
       PhysicalResourceId: ensurePhysicalId(event),
@@ -290,11 +616,16 @@ const handleCreateOrUpdate = async (
         managedIndexes: props.globalSecondaryIndexes
           .map((gsi) => gsi.indexName)
           .join(","),
+        unmanagedIndexes: unmanagedIndexNames.join(","),
+        ...toPhysicalIndexNameData(
+          resolvePhysicalIndexNames(managedCurrent, props.globalSecondaryIndexes)
+        ),
       },
     };
   }
 
   const results = await executeOperations(props.tableName, operations, service);
+  const settled = await service.getCurrentGSIs(props.tableName);
   return {
     PhysicalResourceId: ensurePhysicalId(event),
     Data: {
@@ -302,6 +633,13 @@ const handleCreateOrUpdate = async (
       managedIndexes: props.globalSecondaryIndexes
         .map((gsi) => gsi.indexName)
         .join(","),
+      unmanagedIndexes: unmanagedIndexNames.join(","),
+      ...toPhysicalIndexNameData(
+        resolvePhysicalIndexNames(
+          settled.filter((gsi) => !unmanagedIndexNames.includes(gsi.indexName)),
+          props.globalSecondaryIndexes
+        )
+      ),
     },
   };
 };
@@ -313,27 +651,49 @@ const handleCreateOrUpdate = async (
  * 管理されていない GSI も検出した場合は、クリーンアップのために削除します。
  *
  * @param event - CloudFormation の Delete イベント
+ * @param deps - GSI サービスと操作状態ストア
  * @returns ハンドラーレスポンス（物理ID と削除結果データ）
  */
 const handleDelete = async (
-  event: CloudFormationCustomResourceDeleteEvent
+  event: CloudFormationCustomResourceDeleteEvent,
+  deps: HandlerDependencies
 ): Promise<HandlerResponse> => {
   const props = parseManagerProps(event.ResourceProperties);
-  const service = new DynamoDBGSIServiceImpl({
-    client,
-    errorHandling: mergeErrorHandlingConfig(props.errorHandling),
-  });
+  const service = deps.createService(props);
 
   const current = await service.getCurrentGSIs(props.tableName);
-  const { candidates: targets, adoptedLegacyIndexes, untrackedCount } =
-    resolveCurrentForPlanning(event.RequestType, current, collectManagedNames(props.globalSecondaryIndexes));
+  const {
+    candidates: targets,
+    adoptedLegacyIndexes,
+    untrackedCount,
+    unmanagedIndexNames,
+  } = resolveCurrentForPlanning(
+    event.RequestType,
+    current,
+    collectManagedNames(props.globalSecondaryIndexes),
+    props.unmanagedIndexPolicy
+  );
   if (adoptedLegacyIndexes) {
     console.log(
       `[GSI Manager] Detected ${untrackedCount} unmanaged GSI(s) during Delete; including them in cleanup.`
     );
   }
+  logUnmanagedIndexes(unmanagedIndexNames);
+
+  const operations = targets.map<GSIOperation>((gsi) => ({
+    type: "DELETE",
+    indexName: gsi.indexName,
+    currentConfiguration: gsi,
+    reason: "custom resource is being deleted",
+  }));
+  if (props.dryRun) {
+    return {
+      PhysicalResourceId: ensurePhysicalId(event),
+      Data: buildDryRunData(props, operations, unmanagedIndexNames, current),
+    };
+  }
 
-  if (targets.length === 0) {
+  if (operations.length === 0) {
     return {
       PhysicalResourceId: ensurePhysicalId(event),
       Data: {
@@ -341,19 +701,12 @@ const handleDelete = async (
         managedIndexes: props.globalSecondaryIndexes
           .map((gsi) => gsi.indexName)
           .join(","),
+        unmanagedIndexes: unmanagedIndexNames.join(","),
       },
     };
   }
 
-  const results = await executeOperations(
-    props.tableName,
-    targets.map<GSIOperation>((gsi) => ({
-      type: "DELETE",
-      indexName: gsi.indexName,
-      currentConfiguration: gsi,
-    })),
-    service
-  );
+  const results = await executeOperations(props.tableName, operations, service);
 
   return {
     PhysicalResourceId: ensurePhysicalId(event),
@@ -362,6 +715,7 @@ const handleDelete = async (
       managedIndexes: props.globalSecondaryIndexes
         .map((gsi) => gsi.indexName)
         .join(","),
+      unmanagedIndexes: unmanagedIndexNames.join(","),
     },
   };
 };
@@ -381,11 +735,11 @@ export const handler = async (
 ): Promise<HandlerResponse> => {
   switch (event.RequestType) {
     case "Create":
-      return handleCreateOrUpdate(event);
+      return handleCreateOrUpdate(event, defaultDependencies);
     case "Update":
-      return handleCreateOrUpdate(event);
+      return handleCreateOrUpdate(event, defaultDependencies);
     case "Delete":
-      return handleDelete(event);
+      return handleDelete(event, defaultDependencies);
     default:
       throw new Error("Unsupported request type");
   }
@@ -407,7 +761,7 @@ export const handler = async (
 const startOperation = async (
   tableName: string,
   operation: GSIOperation,
-  service: DynamoDBGSIServiceImpl
+  service: DynamoDBGSIService
 ): Promise<void> => {
   // テーブルが ACTIVE になるまで待機（必須前提条件）
   await service.waitForTableActive(tableName);
@@ -428,32 +782,174 @@ const startOperation = async (
       }
       await service.updateGSI(tableName, operation.desiredConfiguration);
       break;
+    case "UPDATE_BILLING_MODE":
+      if (!operation.billingModeChange) {
+        throw new Error("UPDATE_BILLING_MODE operation missing billingModeChange");
+      }
+      await service.updateBillingMode(tableName, operation.billingModeChange);
+      break;
   }
 
   // 操作を開始したら即座に返す（GSI のステータス変更完了は待機しない）
 };
 
+/**
+ * 保存済みの未完了の計画を再開（非同期パターン）
+ *
+ * 同じ種類のリクエストと同じ構成から作成された未完了の計画が状態ストアに残っている場合
+ * （失敗したデプロイを同じ構成で再実行した場合など）、新しい計画は作らずに
+ * 完了済みの操作を飛ばして続きから再開します。最後の進捗から時間が経った計画は
+ * テーブルが変わっている可能性があるため再開しません。
+ *
+ * @param event - CloudFormation カスタムリソースイベント
+ * @param props - パース済みの GSI マネージャープロパティ
+ * @param store - 操作状態ストア
+ * @returns 再開した場合は非同期レスポンス、再開できない場合は undefined
+ */
+const resumeOperations = async (
+  event: CloudFormationCustomResourceEvent,
+  props: GSIManagerProps,
+  store: OperationStateStore
+): Promise<OnEventResponse | undefined> => {
+  const resourceKey = toResourceKey(event);
+  const saved = await store.load(resourceKey);
+  if (!saved) {
+    return undefined;
+  }
+  const origin = {
+    requestType: event.RequestType,
+    configurationHash: computeConfigurationHash(event.RequestType, props),
+  };
+  if (!canResume(saved, origin)) {
+    if (!isAllOperationsComplete(saved)) {
+      console.log(
+        `[GSI Manager][onEvent] Not resuming the saved ${saved.requestType} plan for ${resourceKey} ` +
+        `(last progress at ${new Date(getLastActivityTime(saved)).toISOString()}); re-planning from the current table.`
+      );
+    }
+    return undefined;
+  }
+
+  // 実行中の操作の時間予算は再開した時点から数え直す
+  await store.save(resourceKey, {
+    ...saved,
+    requestId: event.RequestId,
+    currentOperationStartedAt: saved.currentOperationStartedAt
+      ? new Date().toISOString()
+      : undefined,
+  });
+  console.log(
+    `[GSI Manager][onEvent] Resuming saved plan for ${resourceKey}: ${saved.completedIndices.length}/${saved.allOperations.length} operation(s) already completed.`
+  );
+
+  return {
+    IsComplete: false,
+    PhysicalResourceId: ensurePhysicalId(event),
+  };
+};
+
+/**
+ * このリソースが作成したバージョン付き GSI の物理名を保存済みの状態から読み込む
+ *
+ * 状態のない Create は新しいリソースのため、所有するバージョン付き GSI はありません。
+ * 所有の記録がない古い状態の場合は undefined を返し、論理名のみで管理対象を判定します
+ * （次に保存する計画から記録されます）。
+ *
+ * @param event - CloudFormation カスタムリソースイベント
+ * @param store - 操作状態ストア
+ * @returns 所有するバージョン付き GSI の物理名、または undefined
+ */
+const loadOwnedVersionedIndexNames = async (
+  event: CloudFormationCustomResourceEvent,
+  store: OperationStateStore
+): Promise<Set<string> | undefined> => {
+  const saved = await store.load(toResourceKey(event));
+  if (saved?.ownedVersionedIndexNames) {
+    return new Set(saved.ownedVersionedIndexNames);
+  }
+  return !saved && event.RequestType === "Create" ? new Set() : undefined;
+};
+
+/**
+ * 操作計画を状態ストアに保存し、最初の操作を開始（非同期パターン）
+ *
+ * 計画はここで一度だけ算出・保存され、isCompleteHandler は保存された状態を
+ * 順に進めます。これにより進捗が決定的になり、状態ストアから確認できます。
+ *
+ * @param event - CloudFormation カスタムリソースイベント
+ * @param props - パース済みの GSI マネージャープロパティ
+ * @param operations - 計画された GSI 操作のリスト（1件以上）
+ * @param unmanagedIndexNames - 操作対象から除外した非管理 GSI の名前
+ * @param managedCurrent - 操作対象とした現在の GSI（所有するバージョン付き GSI の記録に使用）
+ * @param service - DynamoDB GSI サービスインスタンス
+ * @param store - 操作状態ストア
+ * @returns 非同期レスポンス（IsComplete=false と物理ID）
+ */
+const beginOperations = async (
+  event: CloudFormationCustomResourceEvent,
+  props: GSIManagerProps,
+  operations: GSIOperation[],
+  unmanagedIndexNames: string[],
+  managedCurrent: GSIInfo[],
+  service: DynamoDBGSIService,
+  store: OperationStateStore
+): Promise<OnEventResponse> => {
+  const resourceKey = toResourceKey(event);
+  const initialState = createInitialState(operations, {
+    requestId: event.RequestId,
+    requestType: event.RequestType,
+    configurationHash: computeConfigurationHash(event.RequestType, props),
+    unmanagedIndexNames,
+    ownedVersionedIndexNames: managedCurrent
+      .map((gsi) => gsi.indexName)
+      .filter(isVersionedIndexName),
+  });
+
+  // 開始前に計画を保存し、開始に失敗しても計画が確認できるようにする
+  await store.save(resourceKey, initialState);
+
+  // 最初の操作のみを開始（完了を待機しない）
+  const firstOperation = operations[0];
+  await startOperation(props.tableName, firstOperation, service);
+  await store.save(resourceKey, markCurrentOperationStarted(initialState));
+
+  console.log(
+    `[GSI Manager][onEvent] Started operation ${firstOperation.type} for ${firstOperation.indexName}. ` +
+    `Total operations: ${operations.length}`
+  );
+
+  // IsComplete=false の場合は Data を返さない（CloudFormation Provider Framework の制約）
+  return {
+    IsComplete: false,
+    PhysicalResourceId: ensurePhysicalId(event),
+  };
+};
+
 /**
  * Create または Update イベントを処理（非同期パターン）
  *
- * 最初の GSI 操作のみを開始し、完了を待たずに即座に IsComplete=false を返します。
- * isCompleteHandler が操作の完了を確認し、次の操作を開始します。
+ * 操作計画を保存して最初の GSI 操作のみを開始し、完了を待たずに即座に IsComplete=false を返します。
+ * isCompleteHandler が保存された計画に沿って操作の完了を確認し、次の操作を開始します。
  *
  * @param event - CloudFormation の Create または Update イベント
+ * @param deps - GSI サービスと操作状態ストア
  * @returns 非同期レスポンス（IsComplete フラグと物理ID）
  * @throws GSI 構成が無効な場合にエラーをスロー
  */
 const handleCreateOrUpdateAsync = async (
-  event: CloudFormationCustomResourceCreateEvent | CloudFormationCustomResourceUpdateEvent
+  event: CloudFormationCustomResourceCreateEvent | CloudFormationCustomResourceUpdateEvent,
+  deps: HandlerDependencies
 ): Promise<OnEventResponse> => {
   const props = parseManagerProps(event.ResourceProperties);
-  const errors = validateGsiConfigurations(props.globalSecondaryIndexes);
-  if (errors.length > 0) {
-    throw new Error(["Invalid GSI configuration detected:", ...errors].join("\n- "));
-  }
+  const service = deps.createService(props);
+  await assertValidConfiguration(props, service);
 
-  const errorHandling = mergeErrorHandlingConfig(props.errorHandling);
-  const service = new DynamoDBGSIServiceImpl({ client, errorHandling });
+  if (!props.dryRun) {
+    const resumed = await resumeOperations(event, props, deps.getStateStore());
+    if (resumed) {
+      return resumed;
+    }
+  }
 
   const oldProps =
     event.RequestType === "Update" && event.OldResourceProperties
@@ -469,16 +965,38 @@ const handleCreateOrUpdateAsync = async (
     candidates: managedCurrent,
     adoptedLegacyIndexes,
     untrackedCount,
-  } = resolveCurrentForPlanning(event.RequestType, current, managedNames);
+    unmanagedIndexNames,
+  } = resolveCurrentForPlanning(
+    event.RequestType,
+    current,
+    managedNames,
+    props.unmanagedIndexPolicy,
+    await loadOwnedVersionedIndexNames(event, deps.getStateStore())
+  );
   if (adoptedLegacyIndexes) {
     console.log(
       `[GSI Manager] Detected ${untrackedCount} pre-existing GSI(s) not present in configuration; treating them as managed for cleanup.`
     );
   }
+  logUnmanagedIndexes(unmanagedIndexNames);
   const operations = planGsiOperations(
-    managedCurrent,
-    props.globalSecondaryIndexes
+    await withContributorInsights(props, managedCurrent, service),
+    props.globalSecondaryIndexes,
+    await resolveBillingModeInput(props, service, unmanagedIndexNames),
+    unmanagedIndexNames
   );
+  assertValidPlan(current, operations);
+
+  if (props.dryRun) {
+    // ドライランでは操作を開始せず、計画のみを返して完了を通知
+    return {
+      IsComplete: true,
+      PhysicalResourceId: ensurePhysicalId(event),
+      Data: buildDryRunData(props, operations, unmanagedIndexNames, current),
+    };
+  }
+
+  assertReplacementsApproved(operations);
 
   if (operations.length === 0) {
     // 操作が不要な場合は即座に完了を通知
@@ -488,54 +1006,86 @@ const handleCreateOrUpdateAsync = async (
       Data: {
         operationsExecuted: 0,
         managedIndexes: props.globalSecondaryIndexes.map((gsi) => gsi.indexName).join(","),
+        unmanagedIndexes: unmanagedIndexNames.join(","),
+        ...toPhysicalIndexNameData(
+          resolvePhysicalIndexNames(managedCurrent, props.globalSecondaryIndexes)
+        ),
       },
     };
   }
 
-  // 最初の操作のみを開始（完了を待機しない）
-  const firstOperation = operations[0];
-  await startOperation(props.tableName, firstOperation, service);
-
-  console.log(
-    `[GSI Manager][onEvent] Started operation ${firstOperation.type} for ${firstOperation.indexName}. ` +
-    `Total operations: ${operations.length}`
+  return beginOperations(
+    event,
+    props,
+    operations,
+    unmanagedIndexNames,
+    managedCurrent,
+    service,
+    deps.getStateStore()
   );
-
-  // IsComplete=false の場合は Data を返さない（CloudFormation Provider Framework の制約）
-  return {
-    IsComplete: false,
-    PhysicalResourceId: ensurePhysicalId(event),
-  };
 };
 
 /**
  * Delete イベントを処理（非同期パターン）
  *
- * 最初の GSI 削除操作のみを開始し、完了を待たずに即座に IsComplete=false を返します。
- * isCompleteHandler が削除の完了を確認し、次の削除操作を開始します。
+ * 削除計画を保存して最初の GSI 削除操作のみを開始し、完了を待たずに即座に IsComplete=false を返します。
+ * isCompleteHandler が保存された計画に沿って削除の完了を確認し、次の削除操作を開始します。
  *
  * @param event - CloudFormation の Delete イベント
+ * @param deps - GSI サービスと操作状態ストア
  * @returns 非同期レスポンス（IsComplete フラグと物理ID）
  */
 const handleDeleteAsync = async (
-  event: CloudFormationCustomResourceDeleteEvent
+  event: CloudFormationCustomResourceDeleteEvent,
+  deps: HandlerDependencies
 ): Promise<OnEventResponse> => {
   const props = parseManagerProps(event.ResourceProperties);
-  const service = new DynamoDBGSIServiceImpl({
-    client,
-    errorHandling: mergeErrorHandlingConfig(props.errorHandling),
-  });
+  if (!props.dryRun) {
+    const resumed = await resumeOperations(event, props, deps.getStateStore());
+    if (resumed) {
+      return resumed;
+    }
+  }
+
+  const service = deps.createService(props);
 
   const current = await service.getCurrentGSIs(props.tableName);
-  const { candidates: targets, adoptedLegacyIndexes, untrackedCount } =
-    resolveCurrentForPlanning(event.RequestType, current, collectManagedNames(props.globalSecondaryIndexes));
+  const {
+    candidates: targets,
+    adoptedLegacyIndexes,
+    untrackedCount,
+    unmanagedIndexNames,
+  } = resolveCurrentForPlanning(
+    event.RequestType,
+    current,
+    collectManagedNames(props.globalSecondaryIndexes),
+    props.unmanagedIndexPolicy,
+    await loadOwnedVersionedIndexNames(event, deps.getStateStore())
+  );
   if (adoptedLegacyIndexes) {
     console.log(
       `[GSI Manager] Detected ${untrackedCount} unmanaged GSI(s) during Delete; including them in cleanup.`
     );
   }
+  logUnmanagedIndexes(unmanagedIndexNames);
+
+  const operations = targets.map<GSIOperation>((gsi) => ({
+    type: "DELETE",
+    indexName: gsi.indexName,
+    currentConfiguration: gsi,
+    reason: "custom resource is being deleted",
+  }));
+
+  if (props.dryRun) {
+    // ドライランでは削除を開始せず、計画のみを返して完了を通知
+    return {
+      IsComplete: true,
+      PhysicalResourceId: ensurePhysicalId(event),
+      Data: buildDryRunData(props, operations, unmanagedIndexNames, current),
+    };
+  }
 
-  if (targets.length === 0) {
+  if (operations.length === 0) {
     return {
       IsComplete: true,
       PhysicalResourceId: ensurePhysicalId(event),
@@ -544,30 +1094,20 @@ const handleDeleteAsync = async (
         managedIndexes: props.globalSecondaryIndexes
           .map((gsi) => gsi.indexName)
           .join(","),
+        unmanagedIndexes: unmanagedIndexNames.join(","),
       },
     };
   }
 
-  const operations = targets.map<GSIOperation>((gsi) => ({
-    type: "DELETE",
-    indexName: gsi.indexName,
-    currentConfiguration: gsi,
-  }));
-
-  // 最初の削除操作のみを開始（完了を待機しない）
-  const firstOperation = operations[0];
-  await startOperation(props.tableName, firstOperation, service);
-
-  console.log(
-    `[GSI Manager][onEvent] Started DELETE operation for ${firstOperation.indexName}. ` +
-    `Total operations: ${operations.length}`
+  return beginOperations(
+    event,
+    props,
+    operations,
+    unmanagedIndexNames,
+    targets,
+    service,
+    deps.getStateStore()
   );
-
-  // IsComplete=false の場合は Data を返さない（CloudFormation Provider Framework の制約）
-  return {
-    IsComplete: false,
-    PhysicalResourceId: ensurePhysicalId(event),
-  };
 };
 
 /**
@@ -580,20 +1120,26 @@ const handleDeleteAsync = async (
  * このパターンは Lambda のタイムアウト制限（15分）を回避し、
  * 長時間実行される GSI 操作を安全に処理できます。
  *
- * @param event - CloudFormation カスタムリソースイベント
- * @returns 非同期レスポンス（IsComplete フラグと物理ID）
+ * @param deps - GSI サービスと操作状態ストア（テストではインメモリの実装を渡す）
+ * @returns onEvent ハンドラー
+ */
+export const createOnEventHandler =
+  (deps: HandlerDependencies) =>
+  async (event: CloudFormationCustomResourceEvent): Promise<OnEventResponse> => {
+    switch (event.RequestType) {
+      case "Create":
+      case "Update":
+        return handleCreateOrUpdateAsync(event, deps);
+      case "Delete":
+        return handleDeleteAsync(event, deps);
+      default:
+        throw new Error("Unsupported request type");
+    }
+  };
+
+/**
+ * Lambda のエントリポイント（既定の依存関係を使用する onEvent ハンドラー）
+ *
  * @throws サポートされていないリクエストタイプの場合にエラーをスロー
  */
-export const onEventHandler = async (
-  event: CloudFormationCustomResourceEvent
-): Promise<OnEventResponse> => {
-  switch (event.RequestType) {
-    case "Create":
-    case "Update":
-      return handleCreateOrUpdateAsync(event);
-    case "Delete":
-      return handleDeleteAsync(event);
-    default:
-      throw new Error("Unsupported request type");
-  }
-};
+export const onEventHandler = createOnEventHandler(defaultDependencies);
@@ -0,0 +1,43 @@
+// Logical <-> physical GSI naming used by blue/green replacements.
+// A logical index "GSI1" is backed by exactly one physical index once a deployment
+// settles: either "GSI1" itself or a versioned shadow such as "GSI1__v2". The mapping
+// is therefore recoverable from the table's index names alone.
+
+const VERSION_SEPARATOR = "__v";
+const VERSIONED_NAME_PATTERN = /^(.+)__v(\d+)$/;
+
+// The unsuffixed physical name counts as version 1.
+export const getIndexVersion = (physicalName: string): number => {
+  const match = VERSIONED_NAME_PATTERN.exec(physicalName);
+  return match ? Number(match[2]) : 1;
+};
+
+export const toLogicalIndexName = (physicalName: string): string => {
+  const match = VERSIONED_NAME_PATTERN.exec(physicalName);
+  return match ? match[1] : physicalName;
+};
+
+export const toVersionedIndexName = (
+  logicalName: string,
+  version: number
+): string =>
+  version <= 1 ? logicalName : `${logicalName}${VERSION_SEPARATOR}${version}`;
+
+export const isVersionedIndexName = (name: string): boolean =>
+  VERSIONED_NAME_PATTERN.test(name);
+
+// Flattens the mapping into custom resource Data so each entry is reachable with
+// Fn::GetAtt (e.g. "physicalIndexName.GSI1").
+export const toPhysicalIndexNameData = (
+  mapping: Record<string, string>
+): Record<string, string> => {
+  const data: Record<string, string> = {
+    physicalIndexNames: JSON.stringify(mapping),
+  };
+
+  Object.entries(mapping).forEach(([logicalName, physicalName]) => {
+    data[`physicalIndexName.${logicalName}`] = physicalName;
+  });
+
+  return data;
+};
@@ -1,39 +1,55 @@
 /**
  * CloudFormation カスタムリソースの isComplete ハンドラー（非同期パターン用）
  *
- * onEventHandler で開始された GSI 操作の完了状態を確認し、
+ * onEventHandler で保存された操作計画に沿って GSI 操作の完了状態を確認し、
  * 必要に応じて次の操作を開始します。
  *
  * CloudFormation Provider Framework により定期的に呼び出され、
  * IsComplete=true を返すまで繰り返し実行されます。
  */
 
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import type {
   IsCompleteResponse,
   GSIOperation,
-  ErrorHandlingConfig,
+  GSIOperationState,
+  GSIManagerProps,
   GSIInfo,
 } from "../../../lib/types/index.js";
-import { mergeErrorHandlingConfig } from "../../../lib/types/index.js";
-import { DynamoDBGSIServiceImpl } from "./dynamodb-gsi-service.js";
+import type { DynamoDBGSIService } from "./dynamodb-gsi-service.js";
+import { parseManagerProps } from "./gsi-config-utils.js";
+import { toPhysicalIndexNameData } from "./index-naming.js";
 import {
-  collectManagedNames,
-  parseManagerProps,
-  resolveCurrentForPlanning,
-} from "./gsi-config-utils.js";
-import { planGsiOperations } from "./operation-planner.js";
+  replacementReasonFor,
+  resolvePhysicalIndexNames,
+} from "./operation-planner.js";
+import {
+  getCurrentOperation,
+  getCurrentOperationElapsedMs,
+  markCurrentOperationComplete,
+  markCurrentOperationStarted,
+} from "./operation-state.js";
+import {
+  createDefaultHandlerDependencies,
+  type HandlerDependencies,
+} from "./handler-dependencies.js";
+import { toResourceKey } from "./operation-state-store.js";
 
-/** DynamoDB クライアントのシングルトンインスタンス */
-const client = new DynamoDBClient({});
+/** Lambda で使用する既定の依存関係（DynamoDB クライアントは呼び出し間で再利用） */
+const defaultDependencies = createDefaultHandlerDependencies();
 
 /**
  * isComplete ハンドラーに渡されるイベント
  * CloudFormation Provider Framework から定期的に呼び出される
  */
-interface IsCompleteEvent {
+export interface IsCompleteEvent {
   /** リクエストの種類（Create, Update, Delete） */
   RequestType: "Create" | "Update" | "Delete";
+  /** スタックの一意識別子 */
+  StackId: string;
+  /** onEvent 時と同じリクエストの一意識別子 */
+  RequestId: string;
+  /** CloudFormationテンプレート内のリソースの論理ID */
+  LogicalResourceId: string;
   /** リソースの物理ID */
   PhysicalResourceId: string;
   /** リソースのプロパティ */
@@ -56,7 +72,7 @@ interface IsCompleteEvent {
 const startOperation = async (
   tableName: string,
   operation: GSIOperation,
-  service: DynamoDBGSIServiceImpl
+  service: DynamoDBGSIService
 ): Promise<void> => {
   // テーブルが ACTIVE になるまで待機（必須前提条件）
   await service.waitForTableActive(tableName);
@@ -83,6 +99,16 @@ const startOperation = async (
       console.log(`[GSI Manager] UPDATE operation started for ${operation.indexName}`);
       break;
 
+    case "UPDATE_BILLING_MODE":
+      if (!operation.billingModeChange) {
+        throw new Error("UPDATE_BILLING_MODE operation missing billingModeChange");
+      }
+      await service.updateBillingMode(tableName, operation.billingModeChange);
+      console.log(
+        `[GSI Manager] Billing mode change to ${operation.billingModeChange.to} started`
+      );
+      break;
+
     default:
       // TypeScript の exhaustiveness チェックにより、すべての操作タイプが処理されることを保証
       throw new Error(`Unknown operation type for ${operation.indexName}`);
@@ -102,256 +128,206 @@ const startOperation = async (
 const checkOperationComplete = async (
   tableName: string,
   operation: GSIOperation,
-  service: DynamoDBGSIServiceImpl
+  service: DynamoDBGSIService
 ): Promise<boolean> => {
   const tableActive = await service.isTableActive(tableName);
   if (!tableActive) {
     return false;
   }
 
+  // 課金モードの切り替えはテーブル全体の操作のため、モードの反映と全 GSI の ACTIVE を待つ
+  if (operation.type === "UPDATE_BILLING_MODE") {
+    return operation.billingModeChange
+      ? await service.isBillingModeApplied(tableName, operation.billingModeChange.to)
+      : false;
+  }
+
   // DELETE の場合は DELETED、それ以外（CREATE, UPDATE）は ACTIVE を待つ
   const targetStatus = operation.type === "DELETE" ? "DELETED" : "ACTIVE";
   return await service.isGSIInStatus(tableName, operation.indexName, targetStatus);
 };
 
 /**
- * CloudFormation カスタムリソースの isComplete ハンドラー
- *
- * CloudFormation Provider Framework により定期的に呼び出され、
- * GSI 操作の完了状態を確認します。
- *
- * 主な処理フロー：
- * 1. 現在のテーブル状態を取得
- * 2. 操作計画を再計算（べき等性の確保）
- * 3. 進行中の操作がある場合は完了を待機
- * 4. 未完了の操作がある場合は次の操作を開始
- * 5. すべて完了している場合は IsComplete=true を返す
+ * 未開始の操作が既に目標状態に達しているか確認（再開時の省略判定）
  *
- * DynamoDB の制限により、同時に実行できる GSI 操作は1つだけです。
+ * CREATE は同名の ACTIVE な GSI があるだけでは完了とみなさず、キースキーマ・
+ * キー属性の型・Projection が計画の構成と一致する場合のみ完了とします。
  *
- * @param event - isComplete イベント（ResourceProperties を含む）
- * @returns 完了状態を示すレスポンス
+ * @param tableName - 対象テーブル名
+ * @param operation - 確認する GSI 操作（UPDATE 以外）
+ * @param service - DynamoDB GSI サービスインスタンス
+ * @returns 開始せずに完了扱いにできる場合は true
+ * @throws 同名の GSI が異なる定義で存在する場合にエラーをスロー
  */
-export const isCompleteHandler = async (
-  event: IsCompleteEvent
-): Promise<IsCompleteResponse> => {
-  const props = parseManagerProps(event.ResourceProperties);
-  const service = new DynamoDBGSIServiceImpl({
-    client,
-    errorHandling: mergeErrorHandlingConfig(props.errorHandling)
-  });
-
-  console.log(`[GSI Manager][isComplete] Checking operations for table ${props.tableName}`);
-
-  // Update の場合、削除された GSI を検出するために以前のプロパティも考慮
-  const oldProps =
-    event.RequestType === "Update" && event.OldResourceProperties
-      ? parseManagerProps(event.OldResourceProperties)
-      : undefined;
-  const managedNames = collectManagedNames(
-    props.globalSecondaryIndexes,
-    oldProps?.globalSecondaryIndexes
-  );
-
-  // 現在の GSI 状態を取得し、管理対象を解決
-  const current = await service.getCurrentGSIs(props.tableName);
-  const {
-    candidates: managedCurrent,
-    adoptedLegacyIndexes,
-    untrackedCount,
-  } = resolveCurrentForPlanning(event.RequestType, current, managedNames);
-  if (adoptedLegacyIndexes) {
-    console.log(
-      `[GSI Manager][isComplete] Detected ${untrackedCount} pre-existing GSI(s) not present in configuration; adopting them for cleanup.`
-    );
+const isAlreadyInTargetState = async (
+  tableName: string,
+  operation: GSIOperation,
+  service: DynamoDBGSIService
+): Promise<boolean> => {
+  if (!(await checkOperationComplete(tableName, operation, service))) {
+    return false;
   }
-
-  // Delete リクエストの処理：管理対象の GSI を1つずつ削除
-  if (event.RequestType === "Delete") {
-    const existingManaged = managedCurrent;
-
-    if (existingManaged.length === 0) {
-      // すべての GSI が削除完了
-      console.log(`[GSI Manager][isComplete] All GSIs deleted`);
-      return {
-        IsComplete: true,
-        Data: {
-          operationsExecuted: props.globalSecondaryIndexes.length,
-          managedIndexes: props.globalSecondaryIndexes.map((gsi) => gsi.indexName).join(","),
-        },
-      };
-    }
-
-    // DynamoDB 制限: 同時に1つの GSI 操作のみ可能
-    // 最初の管理対象 GSI から処理を開始
-    const gsi = existingManaged[0];
-    console.log(`[GSI Manager][isComplete] Checking deletion of ${gsi.indexName} (${existingManaged.length} GSIs remaining)`);
-
-    const isDeleted = await service.isGSIInStatus(props.tableName, gsi.indexName, "DELETED");
-    if (isDeleted) {
-      // この GSI は削除完了
-      console.log(`[GSI Manager][isComplete] ${gsi.indexName} deleted successfully`);
-
-      if (existingManaged.length > 1) {
-        // まだ他のGSIがある
-        return {
-          IsComplete: false,
-        };
-      }
-
-      // すべて削除完了
-      console.log(`[GSI Manager][isComplete] All GSIs deleted`);
-      return {
-        IsComplete: true,
-        Data: {
-          operationsExecuted: props.globalSecondaryIndexes.length,
-          managedIndexes: props.globalSecondaryIndexes.map((gsi) => gsi.indexName).join(","),
-        },
-      };
-    }
-
-    // まだ削除されていない
-    if (gsi.indexStatus !== "DELETING") {
-      // 削除操作がまだ開始されていない
-      const tableActive = await service.isTableActive(props.tableName);
-      if (tableActive) {
-        console.log(`[GSI Manager][isComplete] Starting deletion of ${gsi.indexName}`);
-        await service.deleteGSI(props.tableName, gsi.indexName);
-      } else {
-        console.log(`[GSI Manager][isComplete] Waiting for table to become ACTIVE before deleting ${gsi.indexName}`);
-      }
-    } else {
-      console.log(`[GSI Manager][isComplete] ${gsi.indexName} deletion in progress`);
-    }
-
-    return {
-      IsComplete: false,
-    };
+  if (operation.type !== "CREATE" || !operation.desiredConfiguration) {
+    return true;
   }
 
-  // Create/Update の場合:
-  // まず、進行中の操作があるかチェック（DynamoDB制限対応）
-  const inProgressGSI = managedCurrent.find(
-    (gsi) =>
-      gsi.indexStatus === "CREATING" ||
-      gsi.indexStatus === "UPDATING" ||
-      gsi.indexStatus === "DELETING"
+  const live = (await service.getCurrentGSIs(tableName)).find(
+    (gsi) => gsi.indexName === operation.indexName
   );
-
-  if (inProgressGSI) {
-    // 進行中の操作がある → 完了を待つ（新しい操作は開始しない）
-    console.log(
-      `[GSI Manager][isComplete] Waiting for ${inProgressGSI.indexName} to complete (status: ${inProgressGSI.indexStatus})`
-    );
-
-    // 完了しているかチェック
-    const targetStatus = inProgressGSI.indexStatus === "DELETING" ? "DELETED" : "ACTIVE";
-    const isComplete = await service.isGSIInStatus(
-      props.tableName,
-      inProgressGSI.indexName,
-      targetStatus
+  const mismatch = live && replacementReasonFor(live, operation.desiredConfiguration);
+  if (mismatch) {
+    throw new Error(
+      `CREATE ${operation.indexName} on table "${tableName}" cannot be skipped: an index with that name already exists ` +
+        `but does not match the planned definition (${mismatch}). Deploy again with a changed configuration or ` +
+        `remove the index so the plan is computed from the current table.`
     );
+  }
+  return live !== undefined;
+};
 
-    if (isComplete) {
-      console.log(`[GSI Manager][isComplete] ${inProgressGSI.indexName} completed successfully`);
-      // 完了したので、次のポーリングで新しい operations を確認
-      return {
-        IsComplete: false,
-      };
-    }
+/**
+ * 完了時のレスポンスデータを生成
+ *
+ * @param props - パース済みの GSI マネージャープロパティ
+ * @param state - 完了した操作状態
+ * @param current - 完了時点の GSI 状態
+ * @returns カスタムリソースの Data に設定する値
+ */
+const buildCompletionData = (
+  props: GSIManagerProps,
+  state: GSIOperationState,
+  current: GSIInfo[]
+): Record<string, unknown> => ({
+  operationsExecuted: state.allOperations.length,
+  managedIndexes: props.globalSecondaryIndexes.map((gsi) => gsi.indexName).join(","),
+  unmanagedIndexes: state.unmanagedIndexNames.join(","),
+  ...(state.requestType === "Delete"
+    ? {}
+    : toPhysicalIndexNameData(
+        resolvePhysicalIndexNames(
+          current.filter((gsi) => !state.unmanagedIndexNames.includes(gsi.indexName)),
+          props.globalSecondaryIndexes
+        )
+      )),
+});
 
-    // まだ完了していない
-    return {
-      IsComplete: false,
-    };
+/**
+ * 現在の操作が時間予算（operationTimeoutSeconds）を超えていないか確認
+ *
+ * 予算を超えた操作は停止している可能性が高いため、Provider 全体のタイムアウトを
+ * 待たずに、対象の操作を示すエラーで失敗させます。
+ *
+ * @throws 時間予算を超過している場合にエラーをスロー
+ */
+const assertWithinOperationBudget = (
+  props: GSIManagerProps,
+  state: GSIOperationState,
+  operation: GSIOperation
+): void => {
+  const budgetSeconds = props.operationTimeoutSeconds;
+  const elapsedMs = getCurrentOperationElapsedMs(state);
+  if (budgetSeconds === undefined || elapsedMs === undefined) {
+    return;
   }
 
-  // 進行中の操作がない → 操作計画を再計算
-  const operations = planGsiOperations(managedCurrent, props.globalSecondaryIndexes);
-
-  if (operations.length === 0) {
-    // すべての操作が完了している
-    console.log(`[GSI Manager][isComplete] All operations completed`);
-    return {
-      IsComplete: true,
-      Data: {
-        operationsExecuted: props.globalSecondaryIndexes.length,
-        managedIndexes: props.globalSecondaryIndexes.map((gsi) => gsi.indexName).join(","),
-      },
-    };
+  if (elapsedMs > budgetSeconds * 1000) {
+    throw new Error(
+      `${operation.type} ${operation.indexName} on table "${props.tableName}" did not complete within ${budgetSeconds}s ` +
+        `(started at ${state.currentOperationStartedAt}). The operation may still be running in DynamoDB. ` +
+        `Resuming requires a stack deployed with --no-rollback: redeploy the same configuration once the index settles. ` +
+        `Otherwise the rollback re-plans against the previous configuration and undoes this operation; raise operationTimeout instead.`
+    );
   }
+};
 
-  // DynamoDB制限: 同時に1つのGSI操作のみ可能
-  // 最初の操作のみを処理
-  console.log(`[GSI Manager][isComplete] Found ${operations.length} pending operations`);
+/**
+ * CloudFormation カスタムリソースの isComplete ハンドラー
+ *
+ * CloudFormation Provider Framework により定期的に呼び出され、
+ * onEventHandler が保存した操作計画に沿って GSI 操作を進めます。
+ *
+ * 主な処理フロー：
+ * 1. 状態ストアから操作状態を読み込む（計画の再計算は行わない）
+ * 2. 現在の操作が未開始であれば、テーブルが ACTIVE になり次第開始する
+ * 3. 現在の操作が開始済みであれば、完了を確認して次の操作へ進める
+ * 4. すべて完了している場合は IsComplete=true を返す
+ *
+ * 進捗は操作ごとに状態ストアへ保存されるため、決定的で確認可能です。
+ * DynamoDB の制限により、同時に実行できる GSI 操作は1つだけです。
+ *
+ * @param deps - GSI サービスと操作状態ストア（テストではインメモリの実装を渡す）
+ * @returns isComplete ハンドラー
+ */
+export const createIsCompleteHandler =
+  (deps: HandlerDependencies) =>
+  async (event: IsCompleteEvent): Promise<IsCompleteResponse> => {
+    const props = parseManagerProps(event.ResourceProperties);
+    const service = deps.createService(props);
+    const store = deps.getStateStore();
+    const resourceKey = toResourceKey(event);
+
+    console.log(`[GSI Manager][isComplete] Checking operations for table ${props.tableName}`);
+
+    let state = await store.load(resourceKey);
+    if (!state || state.requestId !== event.RequestId) {
+      throw new Error(
+        `No operation state found for ${resourceKey} (request ${event.RequestId}); the planned GSI operations cannot be tracked.`
+      );
+    }
 
-  const operation = operations[0];
-  const isComplete = await checkOperationComplete(props.tableName, operation, service);
+    let operation = getCurrentOperation(state);
+    while (operation) {
+      const position = `${state.currentIndex + 1}/${state.allOperations.length}`;
+
+      if (!state.currentOperationStartedAt) {
+        // 再開時に既に目標状態へ達している CREATE/DELETE は開始せずに完了扱いにする
+        // （CREATE は定義の一致も確認する。UPDATE は ACTIVE でも未適用の可能性があるため必ず実行する）
+        if (
+          operation.type !== "UPDATE" &&
+          (await isAlreadyInTargetState(props.tableName, operation, service))
+        ) {
+          console.log(`[GSI Manager][isComplete][${position}] ${operation.type} ${operation.indexName} is already in the target state`);
+          state = markCurrentOperationComplete(state);
+          await store.save(resourceKey, state);
+          operation = getCurrentOperation(state);
+          continue;
+        }
+
+        if (!(await service.isTableActive(props.tableName))) {
+          console.log(`[GSI Manager][isComplete][${position}] Waiting for table to become ACTIVE before ${operation.type} ${operation.indexName}`);
+          return { IsComplete: false };
+        }
+
+        console.log(`[GSI Manager][isComplete][${position}] Starting ${operation.type} for ${operation.indexName}`);
+        await startOperation(props.tableName, operation, service);
+        await store.save(resourceKey, markCurrentOperationStarted(state));
+        return { IsComplete: false };
+      }
 
-  if (isComplete) {
-    // 最初の操作が完了
-    console.log(`[GSI Manager][isComplete] Operation ${operation.type} for ${operation.indexName} is complete`);
+      if (!(await checkOperationComplete(props.tableName, operation, service))) {
+        assertWithinOperationBudget(props, state, operation);
+        console.log(`[GSI Manager][isComplete][${position}] ${operation.type} ${operation.indexName} is in progress`);
+        return { IsComplete: false };
+      }
 
-    if (operations.length > 1) {
-      // まだ他の操作がある
-      console.log(`[GSI Manager][isComplete] ${operations.length - 1} operations remaining`);
-      return {
-        IsComplete: false,
-      };
+      console.log(`[GSI Manager][isComplete][${position}] ${operation.type} ${operation.indexName} is complete`);
+      state = markCurrentOperationComplete(state);
+      await store.save(resourceKey, state);
+      operation = getCurrentOperation(state);
     }
 
     // すべての操作が完了
     console.log(`[GSI Manager][isComplete] All operations completed`);
+    const current = await service.getCurrentGSIs(props.tableName);
     return {
       IsComplete: true,
-      Data: {
-        operationsExecuted: props.globalSecondaryIndexes.length,
-        managedIndexes: props.globalSecondaryIndexes.map((gsi) => gsi.indexName).join(","),
-      },
-    };
-  }
-
-  // 最初の操作がまだ完了していない
-  // 操作が開始されているか確認
-  const currentGSI = current.find((gsi) => gsi.indexName === operation.indexName);
-
-  if (operation.type === "CREATE") {
-    if (!currentGSI) {
-      // CREATE操作がまだ開始されていない - 開始する
-      console.log(`[GSI Manager][isComplete] Starting CREATE for ${operation.indexName}`);
-      await startOperation(props.tableName, operation, service);
-    } else {
-      // 操作は開始済み、完了を待つ
-      console.log(`[GSI Manager][isComplete] CREATE ${operation.indexName} is in progress (status: ${currentGSI.indexStatus})`);
-    }
-    return {
-      IsComplete: false,
+      Data: buildCompletionData(props, state, current),
     };
-  }
+  };
 
-  if (operation.type === "DELETE") {
-    if (currentGSI && currentGSI.indexStatus !== "DELETING") {
-      // DELETE操作がまだ開始されていない - 開始する
-      console.log(`[GSI Manager][isComplete] Starting DELETE for ${operation.indexName}`);
-      await startOperation(props.tableName, operation, service);
-    } else {
-      // 操作は開始済み、完了を待つ
-      console.log(`[GSI Manager][isComplete] DELETE ${operation.indexName} is in progress`);
-    }
-    return {
-      IsComplete: false,
-    };
-  }
-
-  if (operation.type === "UPDATE") {
-    // UPDATEはべき等なので、常に実行（複数回実行しても問題ない）
-    console.log(`[GSI Manager][isComplete] Starting UPDATE for ${operation.indexName}`);
-    await startOperation(props.tableName, operation, service);
-    return {
-      IsComplete: false,
-    };
-  }
-
-  // 想定外の操作タイプ
-  throw new Error(`Unknown operation type: ${operation.type}`);
-};
+/**
+ * Lambda のエントリポイント（既定の依存関係を使用する isComplete ハンドラー）
+ *
+ * @throws 操作状態が見つからない場合にエラーをスロー
+ */
+export const isCompleteHandler = createIsCompleteHandler(defaultDependencies);
@@ -1,12 +1,22 @@
 // Computes the minimal set of GSI operations (create/update/delete)
 // required to transition the current table state to the desired configuration.
 
+import { createHash } from "node:crypto";
 import type {
+  BillingModeChange,
   GSIConfiguration,
   GSIInfo,
   GSIOperation,
   ProjectionType,
+  ProvisionedThroughput,
+  TableBillingMode,
 } from "../../../lib/types/index.js";
+import { TABLE_OPERATION_TARGET } from "../../../lib/types/index.js";
+import {
+  getIndexVersion,
+  toLogicalIndexName,
+  toVersionedIndexName,
+} from "./index-naming.js";
 
 // Memoises the key schema so repeated lookups are cheap.
 const toKeySchemaMap = (info: GSIInfo) => {
@@ -72,6 +82,23 @@ const keySchemaChanged = (
   return false;
 };
 
+// A key attribute keeping its name but changing type (e.g. GSI1SK N -> S) also needs
+// a new index. Types that DescribeTable did not report are treated as unchanged.
+const keyAttributeTypeChanged = (
+  current: GSIInfo,
+  desired: GSIConfiguration
+): boolean =>
+  [desired.partitionKey, desired.sortKey].some((attribute) => {
+    if (!attribute) {
+      return false;
+    }
+
+    const currentType = current.keySchema.find(
+      (entry) => entry.attributeName === attribute.name
+    )?.attributeType;
+    return currentType !== undefined && currentType !== attribute.type;
+  });
+
 const shouldUpdateThroughput = (
   current: GSIInfo,
   desired: GSIConfiguration
@@ -81,6 +108,11 @@ const shouldUpdateThroughput = (
     return false;
   }
 
+  // Application Auto Scaling owns the capacity; resetting it would undo scaling.
+  if (desired.autoScaling) {
+    return false;
+  }
+
   const currentThroughput = current.provisionedThroughput;
   if (!currentThroughput) {
     return false;
@@ -94,60 +126,454 @@ const shouldUpdateThroughput = (
   );
 };
 
+// Warm throughput can only be raised; a desired value at or below the current one is
+// already satisfied (new indexes start with a service-defined baseline). A field the
+// description does not report cannot be compared, so it never triggers an update;
+// otherwise every deploy would plan the same UPDATE again.
+const shouldRaiseWarmThroughput = (
+  current: GSIInfo,
+  desired: GSIConfiguration
+): boolean => {
+  const desiredWarm = desired.warmThroughput;
+  const currentWarm = current.warmThroughput;
+  if (!desiredWarm || !currentWarm) {
+    return false;
+  }
+
+  return (["readUnitsPerSecond", "writeUnitsPerSecond"] as const).some((field) => {
+    const desiredValue = desiredWarm[field];
+    const currentValue = currentWarm[field];
+    return (
+      desiredValue !== undefined &&
+      currentValue !== undefined &&
+      desiredValue > currentValue
+    );
+  });
+};
+
+// Missing limits are reported by DescribeTable as "no limit" (-1). Indexes with
+// provisioned capacity cannot have on-demand limits, so they are never diffed.
+const shouldUpdateOnDemandThroughput = (
+  current: GSIInfo,
+  desired: GSIConfiguration
+): boolean => {
+  const desiredLimits = desired.onDemandThroughput;
+  if (!desiredLimits || (current.provisionedThroughput?.readCapacityUnits ?? 0) > 0) {
+    return false;
+  }
+
+  const currentLimits = current.onDemandThroughput ?? {};
+  return (["maxReadRequestUnits", "maxWriteRequestUnits"] as const).some(
+    (field) =>
+      desiredLimits[field] !== undefined &&
+      desiredLimits[field] !== (currentLimits[field] ?? -1)
+  );
+};
+
+// Indexes report Contributor Insights as DISABLED unless it was turned on.
+const contributorInsightsChanged = (
+  current: GSIInfo,
+  desired: GSIConfiguration
+): boolean =>
+  desired.contributorInsights !== undefined &&
+  desired.contributorInsights !== (current.contributorInsights ?? false);
+
+// Contributor Insights can only be enabled on an ACTIVE index, so it is always applied
+// as a separate UPDATE that carries no capacity settings.
+const contributorInsightsUpdate = (
+  config: GSIConfiguration,
+  reason: string,
+  currentConfiguration?: GSIInfo
+): GSIOperation => ({
+  type: "UPDATE",
+  indexName: config.indexName,
+  desiredConfiguration: {
+    ...config,
+    provisionedThroughput: undefined,
+    onDemandThroughput: undefined,
+    warmThroughput: undefined,
+  },
+  currentConfiguration,
+  reason,
+});
+
+// Why an existing index cannot serve the desired definition (undefined when it can).
+export const replacementReasonFor = (
+  current: GSIInfo,
+  desired: GSIConfiguration
+): string | undefined =>
+  keySchemaChanged(current, desired)
+    ? "key schema changed"
+    : keyAttributeTypeChanged(current, desired)
+      ? "key attribute type changed"
+      : projectionChanged(current, desired)
+      ? "projection changed"
+      : undefined;
+
+// Newest physical version first.
+const byVersionDesc = (a: GSIInfo, b: GSIInfo) =>
+  getIndexVersion(b.indexName) - getIndexVersion(a.indexName);
+
+// Groups physical indexes by the logical name they back (GSI1, GSI1__v2 -> GSI1).
+const groupByLogicalName = (current: GSIInfo[]) => {
+  const groups = new Map<string, GSIInfo[]>();
+  current.forEach((gsi) => {
+    const logicalName = toLogicalIndexName(gsi.indexName);
+    groups.set(logicalName, [...(groups.get(logicalName) ?? []), gsi]);
+  });
+  groups.forEach((infos) => infos.sort(byVersionDesc));
+  return groups;
+};
+
+// Picks the physical index that should serve the logical name: the newest one whose
+// definition already matches, otherwise the newest one overall.
+const selectLiveIndex = (
+  candidates: GSIInfo[],
+  desired: GSIConfiguration
+): GSIInfo | undefined =>
+  candidates.find((gsi) => !replacementReasonFor(gsi, desired)) ?? candidates[0];
+
+export interface BillingModePlanningInput {
+  current: TableBillingMode;
+  desired?: TableBillingMode;
+  tableProvisionedThroughput?: ProvisionedThroughput;
+  // GSIs on the table that are not part of the plan (kept by unmanagedIndexPolicy "retain").
+  unmanagedIndexNames?: string[];
+}
+
+// `reservedIndexNames` are physical names taken by indexes outside the plan (unmanaged
+// ones kept on the table); a blue/green shadow never reuses them.
 export const planGsiOperations = (
   current: GSIInfo[],
-  desired: GSIConfiguration[]
+  desired: GSIConfiguration[],
+  billing?: BillingModePlanningInput,
+  reservedIndexNames: string[] = []
 ): GSIOperation[] => {
   // We first figure out which existing indexes must be removed.
   const operations: GSIOperation[] = [];
-  const currentMap = new Map(current.map((gsi) => [gsi.indexName, gsi]));
+  const currentByLogicalName = groupByLogicalName(current);
+  const takenNames = new Set([
+    ...current.map((gsi) => gsi.indexName),
+    ...reservedIndexNames,
+  ]);
   const desiredNames = new Set(desired.map((gsi) => gsi.indexName));
 
   current.forEach((gsi) => {
-    if (!desiredNames.has(gsi.indexName)) {
+    if (!desiredNames.has(toLogicalIndexName(gsi.indexName))) {
       operations.push({
         type: "DELETE",
         indexName: gsi.indexName,
         currentConfiguration: gsi,
+        reason: "index is not present in the desired configuration",
       });
     }
   });
 
   desired.forEach((config) => {
-    const existing = currentMap.get(config.indexName);
+    const candidates = currentByLogicalName.get(config.indexName) ?? [];
+    const existing = selectLiveIndex(candidates, config);
     if (!existing) {
       operations.push({
         type: "CREATE",
         indexName: config.indexName,
         desiredConfiguration: config,
+        reason: "index does not exist",
       });
+      if (config.contributorInsights) {
+        operations.push(
+          contributorInsightsUpdate(config, "enable contributor insights on the new index")
+        );
+      }
       return;
     }
 
-    if (keySchemaChanged(existing, config) || projectionChanged(existing, config)) {
+    // Leftovers from an interrupted blue/green switch are no longer needed.
+    candidates
+      .filter((gsi) => gsi !== existing)
+      .forEach((gsi) => {
+        operations.push({
+          type: "DELETE",
+          indexName: gsi.indexName,
+          currentConfiguration: gsi,
+          reason: `superseded by ${existing.indexName}`,
+        });
+      });
+
+    // Operations always target the physical name that currently backs the index.
+    const physicalConfig: GSIConfiguration = {
+      ...config,
+      indexName: existing.indexName,
+    };
+    const replacementReason = replacementReasonFor(existing, config);
+
+    if (replacementReason && config.replacementStrategy === "blueGreen") {
+      // AttributeDefinitions are table-wide, so the shadow index cannot declare a
+      // different type for an attribute name the old index still uses.
+      if (keyAttributeTypeChanged(existing, config)) {
+        throw new Error(
+          `GSI "${config.indexName}" changes the type of a key attribute, which cannot be done with replacementStrategy "blueGreen" while "${existing.indexName}" still exists. Use a new attribute name or replacementStrategy "recreate".`
+        );
+      }
+
+      // Build the shadow index first and only drop the old one once it is ACTIVE,
+      // so the access pattern is never left without an index.
+      let version = getIndexVersion(existing.indexName) + 1;
+      while (takenNames.has(toVersionedIndexName(config.indexName, version))) {
+        version += 1;
+      }
+      const shadowName = toVersionedIndexName(config.indexName, version);
+      operations.push({
+        type: "CREATE",
+        indexName: shadowName,
+        desiredConfiguration: { ...config, indexName: shadowName },
+        currentConfiguration: existing,
+        reason: `blue/green replacement required (${replacementReason})`,
+        replacement: true,
+      });
+      if (config.contributorInsights) {
+        operations.push(
+          contributorInsightsUpdate(
+            { ...config, indexName: shadowName },
+            "enable contributor insights on the new index"
+          )
+        );
+      }
       operations.push({
         type: "DELETE",
         indexName: existing.indexName,
         currentConfiguration: existing,
+        reason: `superseded by ${shadowName}`,
+        replacement: true,
+      });
+      return;
+    }
+
+    if (replacementReason) {
+      operations.push({
+        type: "DELETE",
+        indexName: existing.indexName,
+        currentConfiguration: existing,
+        reason: `replacement required (${replacementReason})`,
+        replacement: true,
       });
       operations.push({
         type: "CREATE",
-        indexName: config.indexName,
-        desiredConfiguration: config,
+        indexName: existing.indexName,
+        desiredConfiguration: physicalConfig,
+        currentConfiguration: existing,
+        reason: `replacement required (${replacementReason})`,
+        replacement: true,
       });
+      if (config.contributorInsights) {
+        operations.push(
+          contributorInsightsUpdate(
+            physicalConfig,
+            "enable contributor insights on the new index"
+          )
+        );
+      }
       return;
     }
 
-    if (shouldUpdateThroughput(existing, config)) {
+    const throughputChanged = shouldUpdateThroughput(existing, config);
+    const onDemandThroughputChanged = shouldUpdateOnDemandThroughput(existing, config);
+    const warmThroughputRaised = shouldRaiseWarmThroughput(existing, config);
+    if (throughputChanged || onDemandThroughputChanged || warmThroughputRaised) {
       operations.push({
         // Throughput updates can be applied in place, so we emit a single UPDATE step.
+        // Only the changed settings are kept because UpdateTable rejects no-op values.
         type: "UPDATE",
-        indexName: config.indexName,
-        desiredConfiguration: config,
+        indexName: existing.indexName,
+        desiredConfiguration: {
+          ...physicalConfig,
+          provisionedThroughput: throughputChanged
+            ? config.provisionedThroughput
+            : undefined,
+          onDemandThroughput: onDemandThroughputChanged
+            ? config.onDemandThroughput
+            : undefined,
+          warmThroughput: warmThroughputRaised ? config.warmThroughput : undefined,
+          contributorInsights: undefined,
+        },
         currentConfiguration: existing,
+        reason: [
+          throughputChanged && "provisioned throughput changed",
+          onDemandThroughputChanged && "on-demand throughput changed",
+          warmThroughputRaised && "warm throughput changed",
+        ]
+          .filter(Boolean)
+          .join(", "),
       });
     }
+
+    if (contributorInsightsChanged(existing, config)) {
+      operations.push(
+        contributorInsightsUpdate(
+          physicalConfig,
+          "contributor insights changed",
+          existing
+        )
+      );
+    }
+  });
+
+  if (!billing?.desired || billing.desired === billing.current) {
+    return operations;
+  }
+
+  // UpdateTable needs capacity for every index when switching to PROVISIONED, and the
+  // configuration has none for indexes it does not manage.
+  const unmanagedIndexNames = billing.unmanagedIndexNames ?? [];
+  if (billing.desired === "PROVISIONED" && unmanagedIndexNames.length > 0) {
+    throw new Error(
+      `Switching the billing mode to PROVISIONED requires capacity for every GSI, but ${unmanagedIndexNames
+        .map((name) => `"${name}"`)
+        .join(", ")} ${unmanagedIndexNames.length === 1 ? "is" : "are"} not managed by this resource. ` +
+        `Add them to globalSecondaryIndexes with provisionedThroughput, or switch the billing mode outside of GsiManager.`
+    );
+  }
+
+  return withBillingModeChange(operations, current, desired, {
+    from: billing.current,
+    to: billing.desired,
+    tableProvisionedThroughput: billing.tableProvisionedThroughput,
+  });
+};
+
+// Places the billing mode switch after pure deletions (fewer indexes to carry capacity
+// for) and before everything else, so new indexes are created under the target mode.
+const withBillingModeChange = (
+  operations: GSIOperation[],
+  current: GSIInfo[],
+  desired: GSIConfiguration[],
+  change: BillingModeChange
+): GSIOperation[] => {
+  const pureDeletes = operations.filter(
+    (operation) => operation.type === "DELETE" && !operation.replacement
+  );
+  const deletedNames = new Set(pureDeletes.map((operation) => operation.indexName));
+  const desiredByName = new Map(desired.map((config) => [config.indexName, config]));
+
+  // Every index that still exists at switch time needs capacity in the same call.
+  const indexProvisionedThroughput: Record<string, ProvisionedThroughput> = {};
+  if (change.to === "PROVISIONED") {
+    current
+      .filter((gsi) => !deletedNames.has(gsi.indexName))
+      .forEach((gsi) => {
+        const throughput = desiredByName.get(
+          toLogicalIndexName(gsi.indexName)
+        )?.provisionedThroughput;
+        if (throughput) {
+          indexProvisionedThroughput[gsi.indexName] = throughput;
+        }
+      });
+  }
+
+  const remaining = operations
+    .filter((operation) => !pureDeletes.includes(operation))
+    .map((operation) => {
+      // The switch already applies the desired capacity; resending it would be rejected.
+      if (
+        operation.type !== "UPDATE" ||
+        change.to !== "PROVISIONED" ||
+        !operation.desiredConfiguration?.provisionedThroughput
+      ) {
+        return operation;
+      }
+
+      const desiredConfiguration = {
+        ...operation.desiredConfiguration,
+        provisionedThroughput: undefined,
+      };
+      return desiredConfiguration.onDemandThroughput ||
+        desiredConfiguration.warmThroughput ||
+        desiredConfiguration.contributorInsights !== undefined
+        ? { ...operation, desiredConfiguration }
+        : undefined;
+    })
+    .filter((operation): operation is GSIOperation => operation !== undefined);
+
+  return [
+    ...pureDeletes,
+    {
+      type: "UPDATE_BILLING_MODE",
+      indexName: TABLE_OPERATION_TARGET,
+      billingModeChange:
+        change.to === "PROVISIONED"
+          ? { ...change, indexProvisionedThroughput }
+          : change,
+      reason: `billing mode changes from ${change.from} to ${change.to}`,
+    },
+    ...remaining,
+  ];
+};
+
+// Resolves which physical index backs each logical name. Indexes that do not exist
+// yet map to their logical name, which is what the planner will create them as.
+export const resolvePhysicalIndexNames = (
+  current: GSIInfo[],
+  desired: GSIConfiguration[]
+): Record<string, string> => {
+  const currentByLogicalName = groupByLogicalName(current);
+  const mapping: Record<string, string> = {};
+
+  desired.forEach((config) => {
+    const live = selectLiveIndex(
+      currentByLogicalName.get(config.indexName) ?? [],
+      config
+    );
+    mapping[config.indexName] = live?.indexName ?? config.indexName;
+  });
+
+  return mapping;
+};
+
+// Derives a short, deterministic token from the desired index definition so that an
+// approval only covers the exact replacement it was issued for.
+export const computeReplacementToken = (desired: GSIConfiguration): string => {
+  const fingerprint = JSON.stringify({
+    indexName: toLogicalIndexName(desired.indexName),
+    partitionKey: [desired.partitionKey.name, desired.partitionKey.type],
+    sortKey: desired.sortKey
+      ? [desired.sortKey.name, desired.sortKey.type]
+      : null,
+    projectionType: desired.projectionType ?? "ALL",
+    nonKeyAttributes: [...(desired.nonKeyAttributes ?? [])].sort(),
+  });
+
+  return createHash("sha256").update(fingerprint).digest("hex").slice(0, 12);
+};
+
+// Returns one message per replacement that the index's replacementPolicy does not allow.
+// Callers decide whether to fail (normal deployments) or only report (dry runs).
+export const findBlockedReplacements = (
+  operations: GSIOperation[]
+): string[] => {
+  const messages: string[] = [];
+
+  operations.forEach((operation) => {
+    const desired = operation.desiredConfiguration;
+    if (operation.type !== "CREATE" || !operation.replacement || !desired) {
+      return;
+    }
+
+    const policy = desired.replacementPolicy ?? "allow";
+    if (policy === "deny") {
+      messages.push(
+        `GSI "${toLogicalIndexName(operation.indexName)}" needs to be replaced (${operation.reason}), but its replacementPolicy is "deny".`
+      );
+      return;
+    }
+
+    if (policy === "requireConfirmationToken") {
+      const expected = computeReplacementToken(desired);
+      if (desired.replacementConfirmationToken !== expected) {
+        messages.push(
+          `GSI "${toLogicalIndexName(operation.indexName)}" needs to be replaced (${operation.reason}). Set replacementConfirmationToken to "${expected}" to approve this replacement.`
+        );
+      }
+    }
   });
 
-  return operations;
+  return messages;
 };
@@ -0,0 +1,113 @@
+// Persistence for GSIOperationState (Lambda side).
+// onEventHandler computes the plan once and stores it here; isCompleteHandler then
+// advances through the stored state instead of re-planning on every poll.
+
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import type {
+  ErrorHandlingConfig,
+  GSIOperationState,
+} from "../../../lib/types/index.js";
+import { mergeErrorHandlingConfig } from "../../../lib/types/index.js";
+import { retryWithBackoff } from "./error-handling.js";
+import {
+  deserializeOperationState,
+  isAllOperationsComplete,
+  serializeOperationState,
+} from "./operation-state.js";
+
+export const STATE_TABLE_NAME_ENV = "GSI_MANAGER_STATE_TABLE_NAME";
+
+// Completed states are kept for inspection and expire through the table's TTL.
+// A state that records versioned indexes created by the manager never expires: it is
+// the only evidence that those indexes are not hand-built ones with a matching name.
+const STATE_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+export interface OperationStateStore {
+  load(resourceKey: string): Promise<GSIOperationState | undefined>;
+  save(resourceKey: string, state: GSIOperationState): Promise<void>;
+}
+
+export interface DynamoDBOperationStateStoreOptions {
+  client: DynamoDBClient;
+  tableName: string;
+  errorHandling?: Partial<ErrorHandlingConfig>;
+}
+
+// One item per custom resource, keyed by stack and logical ID so a redeploy of the
+// same resource finds the state left behind by a failed deployment.
+export const toResourceKey = (event: {
+  StackId: string;
+  LogicalResourceId: string;
+}): string => `${event.StackId}/${event.LogicalResourceId}`;
+
+export class DynamoDBOperationStateStore implements OperationStateStore {
+  private readonly client: DynamoDBClient;
+  private readonly tableName: string;
+  private readonly errorHandling: ErrorHandlingConfig;
+
+  constructor(options: DynamoDBOperationStateStoreOptions) {
+    this.client = options.client;
+    this.tableName = options.tableName;
+    this.errorHandling = mergeErrorHandlingConfig(options.errorHandling);
+  }
+
+  async load(resourceKey: string): Promise<GSIOperationState | undefined> {
+    const output = await retryWithBackoff(
+      () =>
+        this.client.send(
+          new GetItemCommand({
+            TableName: this.tableName,
+            Key: { resourceKey: { S: resourceKey } },
+            ConsistentRead: true,
+          })
+        ),
+      this.errorHandling
+    );
+
+    const serialized = output.Item?.state?.S;
+    return serialized ? deserializeOperationState(serialized) : undefined;
+  }
+
+  async save(resourceKey: string, state: GSIOperationState): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+
+    await retryWithBackoff(
+      () =>
+        this.client.send(
+          new PutItemCommand({
+            TableName: this.tableName,
+            Item: {
+              resourceKey: { S: resourceKey },
+              requestId: { S: state.requestId },
+              status: {
+                S: isAllOperationsComplete(state) ? "COMPLETE" : "IN_PROGRESS",
+              },
+              state: { S: serializeOperationState(state) },
+              updatedAt: { S: new Date(now * 1000).toISOString() },
+              ...(state.ownedVersionedIndexNames?.length
+                ? {}
+                : { expiresAt: { N: String(now + STATE_RETENTION_SECONDS) } }),
+            },
+          })
+        ),
+      this.errorHandling
+    );
+  }
+}
+
+export const createOperationStateStoreFromEnv = (
+  client: DynamoDBClient
+): OperationStateStore => {
+  const tableName = process.env[STATE_TABLE_NAME_ENV];
+  if (!tableName) {
+    throw new Error(
+      `Environment variable ${STATE_TABLE_NAME_ENV} is not set; the operation state table is required.`
+    );
+  }
+
+  return new DynamoDBOperationStateStore({ client, tableName });
+};
@@ -1,4 +1,26 @@
-import type { GSIOperationState, GSIOperation } from "../../../lib/types/index.js";
+import { createHash } from "node:crypto";
+import type {
+  GSIManagerProps,
+  GSIOperationState,
+  GSIOperation,
+} from "../../../lib/types/index.js";
+import { isVersionedIndexName } from "./index-naming.js";
+
+/**
+ * 操作計画の作成元となるリクエストの情報
+ */
+export interface OperationStateOrigin {
+  /** リクエストの ID */
+  requestId: string;
+  /** リクエストの種類 */
+  requestType: "Create" | "Update" | "Delete";
+  /** 構成のハッシュ（computeConfigurationHash の結果） */
+  configurationHash: string;
+  /** 計画時に操作対象から除外した非管理 GSI の名前 */
+  unmanagedIndexNames: string[];
+  /** 計画時点でこのリソースが所有しているバージョン付き GSI の物理名 */
+  ownedVersionedIndexNames: string[];
+}
 
 /**
  * 操作状態をJSON文字列にシリアライズ
@@ -14,18 +36,70 @@ export function deserializeOperationState(json: string): GSIOperationState {
   return JSON.parse(json);
 }
 
+/**
+ * 構成のハッシュを算出
+ *
+ * 同じ構成での再デプロイ時に、保存済みの計画を再開できるかを判定するために使用します。
+ * Delete は Create/Update と計画内容が異なるため、別のハッシュになります。
+ */
+export function computeConfigurationHash(
+  requestType: "Create" | "Update" | "Delete",
+  props: GSIManagerProps
+): string {
+  // 待機設定や時間予算は計画内容に影響しないため、変更しても再開できるよう除外する
+  const { waiter, operationTimeoutSeconds, ...planningProps } = props;
+  return createHash("sha256")
+    .update(
+      JSON.stringify({ deleting: requestType === "Delete", props: planningProps })
+    )
+    .digest("hex");
+}
+
 /**
  * 新しい操作状態を作成
  */
-export function createInitialState(operations: GSIOperation[]): GSIOperationState {
+export function createInitialState(
+  operations: GSIOperation[],
+  origin: OperationStateOrigin
+): GSIOperationState {
   return {
     allOperations: operations,
     completedIndices: [],
     currentIndex: operations.length > 0 ? 0 : -1,
     startTime: new Date().toISOString(),
+    ...origin,
+  };
+}
+
+/**
+ * 現在の操作を開始したことを記録
+ */
+export function markCurrentOperationStarted(state: GSIOperationState): GSIOperationState {
+  if (state.currentIndex === -1) {
+    return state;
+  }
+
+  return {
+    ...state,
+    currentOperationStartedAt: new Date().toISOString(),
   };
 }
 
+/**
+ * 現在の操作を開始してからの経過時間（ミリ秒）を取得
+ *
+ * @returns 経過時間。現在の操作が未開始の場合は undefined
+ */
+export function getCurrentOperationElapsedMs(
+  state: GSIOperationState,
+  now: number = Date.now()
+): number | undefined {
+  if (!state.currentOperationStartedAt) {
+    return undefined;
+  }
+  return now - Date.parse(state.currentOperationStartedAt);
+}
+
 /**
  * 現在の操作が完了したことをマーク
  */
@@ -41,9 +115,38 @@ export function markCurrentOperationComplete(state: GSIOperationState): GSIOpera
     ...state,
     completedIndices: newCompletedIndices,
     currentIndex: nextIndex < state.allOperations.length ? nextIndex : -1,
+    currentOperationStartedAt: undefined,
+    ownedVersionedIndexNames: recordVersionedIndexOwnership(
+      state.ownedVersionedIndexNames,
+      state.allOperations[state.currentIndex]
+    ),
   };
 }
 
+/**
+ * 完了した操作をバージョン付き GSI の所有記録に反映
+ *
+ * このリソースが作成したバージョン付き GSI を記録し、削除したものは記録から外します。
+ * 記録がない古い状態（undefined）はそのまま返します。
+ */
+const recordVersionedIndexOwnership = (
+  owned: string[] | undefined,
+  operation: GSIOperation
+): string[] | undefined => {
+  if (!owned || !isVersionedIndexName(operation.indexName)) {
+    return owned;
+  }
+  const others = owned.filter((name) => name !== operation.indexName);
+  switch (operation.type) {
+    case "CREATE":
+      return [...others, operation.indexName];
+    case "DELETE":
+      return others;
+    default:
+      return owned;
+  }
+};
+
 /**
  * すべての操作が完了したか判定
  */
@@ -60,3 +163,41 @@ export function getCurrentOperation(state: GSIOperationState): GSIOperation | nu
   }
   return state.allOperations[state.currentIndex];
 }
+
+/**
+ * 再開できる保存済み計画の最大経過時間（ミリ秒）
+ *
+ * 状態は TTL で削除されるまで30日間残るため、古い計画が変更後のテーブルに対して
+ * 再開されないよう、最後に操作を開始してからの経過時間で打ち切ります。
+ */
+export const MAX_RESUMABLE_STATE_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 保存済みの状態が最後に進捗した時刻（ミリ秒）を取得
+ *
+ * 現在の操作の開始時刻（再開時にも更新される）、なければ計画の作成時刻を使用します。
+ */
+export function getLastActivityTime(state: GSIOperationState): number {
+  return Date.parse(state.currentOperationStartedAt ?? state.startTime);
+}
+
+/**
+ * 保存済みの状態から計画を再開できるか判定
+ *
+ * 未完了の計画が同じ種類のリクエストと同じ構成から作成され、最後の進捗から
+ * `MAX_RESUMABLE_STATE_AGE_MS` 以内の場合のみ再開します。
+ * 失敗したデプロイ（--no-rollback での再実行など）で、完了済みの操作を繰り返さずに済みます。
+ * それ以外の場合、呼び出し元は現在のテーブルから計画を算出し直します。
+ */
+export function canResume(
+  state: GSIOperationState,
+  origin: Pick<OperationStateOrigin, "requestType" | "configurationHash">,
+  now: number = Date.now()
+): boolean {
+  return (
+    !isAllOperationsComplete(state) &&
+    state.requestType === origin.requestType &&
+    state.configurationHash === origin.configurationHash &&
+    now - getLastActivityTime(state) <= MAX_RESUMABLE_STATE_AGE_MS
+  );
+}
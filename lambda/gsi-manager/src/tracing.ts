@@ -0,0 +1,36 @@
+// X-Ray instrumentation for DynamoDB calls (Lambda side).
+// Each call becomes a subsegment under the Lambda invocation segment so the trace
+// shows where a deployment spends its time (DescribeTable polling vs. UpdateTable).
+
+import * as AWSXRay from "aws-xray-sdk-core";
+
+// Set by the construct when the handlers run with active tracing. Without it no
+// segment exists and the X-Ray SDK would log a missing-context error per call.
+export const TRACING_ENABLED_ENV = "GSI_MANAGER_TRACING_ENABLED";
+
+export const isTracingEnabled = (): boolean =>
+  process.env[TRACING_ENABLED_ENV] === "true";
+
+export type TraceAnnotations = Record<string, string | undefined>;
+
+export const traceDynamoDBCall = async <T>(
+  operation: string,
+  annotations: TraceAnnotations,
+  call: () => Promise<T>
+): Promise<T> =>
+  AWSXRay.captureAsyncFunc(`DynamoDB.${operation}`, async (subsegment) => {
+    Object.entries(annotations).forEach(([key, value]) => {
+      if (value !== undefined) {
+        subsegment?.addAnnotation(key, value);
+      }
+    });
+
+    try {
+      return await call();
+    } catch (error) {
+      subsegment?.addError(error as Error);
+      throw error;
+    } finally {
+      subsegment?.close();
+    }
+  });
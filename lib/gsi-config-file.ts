@@ -0,0 +1,154 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import Ajv, { type ErrorObject } from "ajv";
+import { LineCounter, parseDocument, type Document } from "yaml";
+import type { ErrorHandlingConfig, GSIConfiguration } from "./types";
+
+/**
+ * GSI 定義ファイル（YAML / JSON）の内容。
+ * `schema/gsi-config.schema.json` はこの型から `npm run schema` で生成される。
+ */
+export interface GsiConfigFile {
+  /**
+   * エディタの補完用に JSON Schema を指定する場合に使用する（読み込み時は無視される）。
+   */
+  $schema?: string;
+  /**
+   * 管理する GSI の定義。
+   */
+  globalSecondaryIndexes: GSIConfiguration[];
+  /**
+   * エラーハンドリング設定の上書き。
+   */
+  errorHandling?: Partial<ErrorHandlingConfig>;
+}
+
+/**
+ * 同梱の JSON Schema のパス。
+ */
+export const GSI_CONFIG_SCHEMA_PATH = path.join(
+  __dirname,
+  "../schema/gsi-config.schema.json"
+);
+
+const SUPPORTED_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+let validator: ReturnType<Ajv["compile"]> | undefined;
+
+const getValidator = (): ReturnType<Ajv["compile"]> => {
+  if (!validator) {
+    const schema = JSON.parse(fs.readFileSync(GSI_CONFIG_SCHEMA_PATH, "utf8"));
+    validator = new Ajv({ allErrors: true }).compile(schema);
+  }
+  return validator;
+};
+
+// JSON Pointer（例: /globalSecondaryIndexes/0/partitionKey）をパスのセグメントに分解する
+const toPathSegments = (instancePath: string): Array<string | number> =>
+  instancePath
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+const toDisplayPath = (segments: Array<string | number>): string =>
+  segments.reduce<string>(
+    (display, segment) =>
+      typeof segment === "number"
+        ? `${display}[${segment}]`
+        : display
+          ? `${display}.${segment}`
+          : segment,
+    ""
+  ) || "(root)";
+
+const describeError = (error: ErrorObject): string => {
+  switch (error.keyword) {
+    case "additionalProperties":
+      return `unknown property "${error.params.additionalProperty}"`;
+    case "required":
+      return `missing required property "${error.params.missingProperty}"`;
+    case "enum":
+      return `must be one of ${(error.params.allowedValues as unknown[])
+        .map((value) => JSON.stringify(value))
+        .join(", ")}`;
+    default:
+      return error.message ?? error.keyword;
+  }
+};
+
+/**
+ * エラー位置（行・列）をドキュメント内のノードから求める。
+ * 未知のプロパティはそのキー、それ以外は値の位置を指す。
+ */
+const locate = (
+  document: Document,
+  lineCounter: LineCounter,
+  error: ErrorObject
+): { line: number; col: number } => {
+  const segments = toPathSegments(error.instancePath);
+  const node = segments.length > 0 ? document.getIn(segments, true) : document.contents;
+  let offset = (node as { range?: [number, number, number] } | null)?.range?.[0] ?? 0;
+
+  if (error.keyword === "additionalProperties") {
+    const parent = node as { items?: Array<{ key?: { value?: unknown; range?: number[] } }> };
+    const pair = parent?.items?.find(
+      (item) => item.key?.value === error.params.additionalProperty
+    );
+    offset = pair?.key?.range?.[0] ?? offset;
+  }
+
+  return lineCounter.linePos(offset);
+};
+
+/**
+ * GSI 定義ファイルを読み込み、同梱の JSON Schema で検証する。
+ *
+ * 拡張子が `.yaml` / `.yml` / `.json` のファイルに対応する（JSON も YAML パーサーで読み込み、
+ * 同じ方法で位置を求める）。構文エラーとスキーマ違反はまとめて
+ * `<ファイル>:<行>:<列> - <内容>` の形式でエラーメッセージに含める。
+ *
+ * @param filePath - 読み込むファイルのパス
+ * @returns 検証済みの定義
+ * @throws 読み込み・構文・スキーマのいずれかでエラーがある場合
+ */
+export const loadGsiConfigFile = (filePath: string): GsiConfigFile => {
+  const extension = path.extname(filePath).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new Error(
+      `Unsupported GSI config file "${filePath}": expected one of ${SUPPORTED_EXTENSIONS.join(", ")}.`
+    );
+  }
+
+  const source = fs.readFileSync(filePath, "utf8");
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter, prettyErrors: false });
+  const problems: Array<{ line: number; col: number; message: string }> =
+    document.errors.map((error) => ({
+      ...lineCounter.linePos(error.pos[0]),
+      message: error.message,
+    }));
+
+  if (problems.length === 0) {
+    const validate = getValidator();
+    if (!validate(document.toJS())) {
+      (validate.errors ?? []).forEach((error) => {
+        const displayPath = toDisplayPath(toPathSegments(error.instancePath));
+        problems.push({
+          ...locate(document, lineCounter, error),
+          message: `${displayPath}: ${describeError(error)}`,
+        });
+      });
+    }
+  }
+
+  if (problems.length > 0) {
+    const messages = problems
+      .sort((a, b) => a.line - b.line || a.col - b.col)
+      .map(({ line, col, message }) => `${filePath}:${line}:${col} - ${message}`);
+    throw new Error(["Invalid GSI config file:", ...messages].join("\n- "));
+  }
+
+  const { $schema: _schema, ...config } = document.toJS() as GsiConfigFile;
+  return config;
+};
@@ -0,0 +1,204 @@
+import type { TableDescription } from "@aws-sdk/client-dynamodb";
+import type {
+  AttributeDefinition,
+  GSIConfiguration,
+  GSIInfo,
+} from "./types";
+import {
+  toGSIInfos,
+  toTableBillingMode,
+} from "../lambda/gsi-manager/src/dynamodb-gsi-service";
+import {
+  isVersionedIndexName,
+  toLogicalIndexName,
+} from "../lambda/gsi-manager/src/index-naming";
+
+/**
+ * DescribeTable から生成した GSI 構成。
+ */
+export interface GsiImportResult {
+  tableName: string;
+  configurations: GSIConfiguration[];
+  /** 構成で表現できない、または確認が必要な点 */
+  warnings: string[];
+}
+
+/**
+ * TypeScript 出力の設定。
+ */
+export interface TypeScriptRenderOptions {
+  /**
+   * 出力する変数名。省略時はテーブル名から生成する（例: `ordersGlobalSecondaryIndexes`）。
+   */
+  variableName?: string;
+  /**
+   * `GSIConfiguration` 型の import 元。省略時は `./types`。
+   */
+  typesModule?: string;
+}
+
+// On-demand limits of -1 mean "no limit", which is also what an omitted setting means.
+const toOnDemandThroughput = (info: GSIInfo): GSIConfiguration["onDemandThroughput"] => {
+  const limits = info.onDemandThroughput;
+  const isLimited = (value: number | undefined) => value !== undefined && value !== -1;
+  if (!limits || (!isLimited(limits.maxReadRequestUnits) && !isLimited(limits.maxWriteRequestUnits))) {
+    return undefined;
+  }
+  return {
+    maxReadRequestUnits: limits.maxReadRequestUnits,
+    maxWriteRequestUnits: limits.maxWriteRequestUnits,
+  };
+};
+
+const toAttribute = (
+  key: GSIInfo["keySchema"][number],
+  indexName: string,
+  warnings: string[]
+): AttributeDefinition => {
+  if (!key.attributeType) {
+    warnings.push(
+      `GSI "${indexName}": attribute "${key.attributeName}" has no AttributeDefinition in the snapshot; its type was set to "S". Check it before deploying, a wrong type forces a rebuild.`
+    );
+  }
+  return { name: key.attributeName, type: key.attributeType ?? "S" };
+};
+
+/**
+ * DescribeTable の結果から、そのまま GsiManager に渡せる `GSIConfiguration[]` を生成する。
+ *
+ * Lambda と同じ `toGSIInfos` でインデックスを読み取るため、生成した構成を
+ * 同じテーブルに適用しても操作は計画されない。構成で表現できない設定
+ * （複数属性のキー、オートスケーリング、Contributor Insights など）は警告として返す。
+ */
+export const importFromDescribeTable = (table: TableDescription): GsiImportResult => {
+  const tableName = table.TableName ?? "";
+  const billingMode = toTableBillingMode(table);
+  const warnings: string[] = [];
+  const configurations: GSIConfiguration[] = [];
+  const rawIndexes = new Map(
+    (table.GlobalSecondaryIndexes ?? []).map((gsi) => [gsi.IndexName ?? "", gsi])
+  );
+
+  toGSIInfos(table).forEach((info) => {
+    const hashKeys = info.keySchema.filter((key) => key.keyType === "HASH");
+    const rangeKeys = info.keySchema.filter((key) => key.keyType === "RANGE");
+    if (hashKeys.length !== 1 || rangeKeys.length > 1) {
+      warnings.push(
+        `GSI "${info.indexName}" was skipped: its key schema (${info.keySchema
+          .map((key) => `${key.attributeName} ${key.keyType}`)
+          .join(", ")}) cannot be expressed as one partitionKey and an optional sortKey.`
+      );
+      return;
+    }
+
+    const indexName = toLogicalIndexName(info.indexName);
+    if (isVersionedIndexName(info.indexName)) {
+      warnings.push(
+        `GSI "${info.indexName}" is a blue/green shadow index and was imported as "${indexName}"; GsiManager resolves the physical name itself.`
+      );
+    }
+    if (info.indexStatus && info.indexStatus !== "ACTIVE") {
+      warnings.push(
+        `GSI "${info.indexName}" is ${info.indexStatus}; the snapshot was taken while the index was changing.`
+      );
+    } else if (rawIndexes.get(info.indexName)?.Backfilling) {
+      warnings.push(`GSI "${info.indexName}" is still backfilling.`);
+    }
+
+    const [partitionKey] = hashKeys;
+    const [sortKey] = rangeKeys;
+    const onDemandThroughput =
+      billingMode === "PAY_PER_REQUEST" ? toOnDemandThroughput(info) : undefined;
+    configurations.push({
+      indexName,
+      partitionKey: toAttribute(partitionKey, info.indexName, warnings),
+      ...(sortKey ? { sortKey: toAttribute(sortKey, info.indexName, warnings) } : {}),
+      projectionType: info.projection.projectionType,
+      ...(info.projection.projectionType === "INCLUDE"
+        ? { nonKeyAttributes: info.projection.nonKeyAttributes ?? [] }
+        : {}),
+      // On-demand tables report 0/0 capacity for every index.
+      ...(billingMode === "PROVISIONED" && info.provisionedThroughput
+        ? { provisionedThroughput: info.provisionedThroughput }
+        : {}),
+      ...(onDemandThroughput ? { onDemandThroughput } : {}),
+    });
+  });
+
+  if (billingMode === "PROVISIONED" && configurations.length > 0) {
+    warnings.push(
+      "The table uses PROVISIONED capacity. Auto scaling policies are not part of DescribeTable; add autoScaling to indexes that have them, otherwise deployments reset their capacity to the imported values."
+    );
+  }
+  if (configurations.length > 0) {
+    warnings.push(
+      "Contributor Insights status is not part of DescribeTable; set contributorInsights on indexes that have it enabled."
+    );
+  }
+
+  return { tableName, configurations, warnings };
+};
+
+/**
+ * 生成した構成を JSON として整形する（gsi-plan の `--config` にそのまま渡せる）。
+ */
+export const renderConfigurationsAsJson = (result: GsiImportResult): string =>
+  JSON.stringify(result.configurations, null, 2);
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+const toTypeScriptLiteral = (value: unknown, indent: string): string => {
+  if (Array.isArray(value)) {
+    if (value.every((item) => typeof item !== "object" || item === null)) {
+      return `[${value.map((item) => JSON.stringify(item)).join(", ")}]`;
+    }
+    const inner = `${indent}  `;
+    return `[\n${value
+      .map((item) => `${inner}${toTypeScriptLiteral(item, inner)},\n`)
+      .join("")}${indent}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const inner = `${indent}  `;
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    return `{\n${entries
+      .map(
+        ([key, item]) =>
+          `${inner}${IDENTIFIER_PATTERN.test(key) ? key : JSON.stringify(key)}: ${toTypeScriptLiteral(item, inner)},\n`
+      )
+      .join("")}${indent}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const toVariableName = (tableName: string): string => {
+  const words = tableName.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const camel = words
+    .map((word, i) =>
+      i === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join("");
+  const base = /^[A-Za-z_$]/.test(camel) ? camel : `table${camel}`;
+  return `${base}GlobalSecondaryIndexes`;
+};
+
+/**
+ * 生成した構成を TypeScript のソースとして整形する。警告はコメントとして先頭に出力する。
+ */
+export const renderConfigurationsAsTypeScript = (
+  result: GsiImportResult,
+  options: TypeScriptRenderOptions = {}
+): string => {
+  const variableName = options.variableName ?? toVariableName(result.tableName);
+  const lines = [
+    `// Generated by gsi-import from DescribeTable of "${result.tableName}".`,
+    ...result.warnings.map((warning) => `// Warning: ${warning}`),
+    `import type { GSIConfiguration } from "${options.typesModule ?? "./types"}";`,
+    "",
+    `export const ${variableName}: GSIConfiguration[] = ${toTypeScriptLiteral(
+      result.configurations,
+      ""
+    )};`,
+    "",
+  ];
+  return lines.join("\n");
+};
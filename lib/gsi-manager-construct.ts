@@ -1,136 +1,444 @@
-import * as path from "node:path";
 import * as cdk from "aws-cdk-lib";
+import * as appscaling from "aws-cdk-lib/aws-applicationautoscaling";
 import { Duration } from "aws-cdk-lib";
-import * as customResources from "aws-cdk-lib/custom-resources";
 import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
-import * as lambda from "aws-cdk-lib/aws-lambda";
-import * as lambdaNodejs from "aws-cdk-lib/aws-lambda-nodejs";
-import * as logs from "aws-cdk-lib/aws-logs";
+import * as iam from "aws-cdk-lib/aws-iam";
 import { Construct } from "constructs";
+import { loadGsiConfigFile } from "./gsi-config-file";
+import {
+  GsiManagerProvider,
+  type GsiManagerProviderProps,
+} from "./gsi-manager-provider";
 import type {
+  AttributeDefinition,
+  AttributeTypeCode,
   GSIConfiguration,
   ErrorHandlingConfig,
   GSIManagerProps,
+  TableBillingMode,
 } from "./types/index.ts";
+import {
+  collectGsiConfigurationIssues,
+  formatGsiValidationIssue,
+} from "./types/index";
+
+export type { GsiManagerHandlerOptions } from "./gsi-manager-provider";
 
 export interface GsiManagerConstructProps
-  extends Omit<GSIManagerProps, "tableName"> {
+  extends Omit<GSIManagerProps, "tableName" | "operationTimeoutSeconds">,
+    GsiManagerProviderProps {
   /**
    * 管理対象のDynamoDBテーブル。
+   * `Table` / `TableV2` のほか、`Table.fromTableName()` などでインポートした
+   * CDK 管理外のテーブルも指定できる。
    */
-  table: dynamodb.Table;
-  /**
-   * Lambdaログの保持期間。省略時は1週間。
-   */
-  logRetention?: logs.RetentionDays;
+  table: dynamodb.ITable | dynamodb.ITableV2;
   /**
    * テーブル名を明示的に指定したい場合に使用。
    * 省略時は `table.tableName` を利用する。
    */
   tableName?: string;
-  /**
-   * Lambdaのタイムアウト。省略時は15分。
-   */
-  timeout?: Duration;
   /**
    * エラーハンドリング設定を上書き。
    */
   errorHandling?: Partial<ErrorHandlingConfig>;
+  /**
+   * 1つの GSI 操作に許容する時間。超過した場合は対象の操作を示すエラーで失敗させる。
+   * 省略時は制限せず、`totalTimeout` のみが適用される。
+   */
+  operationTimeout?: Duration;
+  /**
+   * `true` の場合、スタック内で `shareProvider: true` を指定したすべての GsiManager が
+   * 1組のハンドラーと Provider を共有する。省略時は GsiManager ごとに専用の Provider を作成する。
+   *
+   * CloudFormation はカスタムリソースの ServiceToken の変更を許可しないため、
+   * デプロイ済みの GsiManager でこの値を切り替えることはできない。新しく追加する GsiManager で指定すること。
+   */
+  shareProvider?: boolean;
 }
 
+export interface GsiManagerFromConfigFileProps
+  extends Omit<GsiManagerConstructProps, "globalSecondaryIndexes"> {
+  /**
+   * GSI 定義ファイル（`.yaml` / `.yml` / `.json`）のパス。相対パスはカレントディレクトリ
+   * （通常は CDK アプリのルート）から解決される。
+   * `globalSecondaryIndexes` と `errorHandling` を読み込む。
+   */
+  configFile: string;
+}
+
+/**
+ * テーブルと LSI のキー属性を synth 時に読み取る。
+ * インポートしたテーブルはスキーマが分からないため空配列を返し、
+ * 型の衝突は Lambda 側で DescribeTable の結果をもとに検証する。
+ */
+const readTableKeyAttributes = (
+  table: dynamodb.ITable
+): AttributeDefinition[] => {
+  if (table instanceof dynamodb.Table) {
+    // LSI 名は公開されていないため L1 の定義から解決し、キーは schema() で取得する
+    const cfnTable = table.node.defaultChild as dynamodb.CfnTable;
+    const localIndexes: dynamodb.CfnTable.LocalSecondaryIndexProperty[] =
+      cdk.Stack.of(table).resolve(cfnTable.localSecondaryIndexes) ?? [];
+    const keys = [
+      table.schema(),
+      ...localIndexes.map((lsi) => table.schema(lsi.indexName)),
+    ].flatMap(({ partitionKey, sortKey }) => [partitionKey, sortKey]);
+    const attributes = new Map<string, AttributeTypeCode>();
+    keys
+      .filter((key): key is dynamodb.Attribute => key !== undefined)
+      .forEach((key) => attributes.set(key.name, key.type as AttributeTypeCode));
+    return [...attributes].map(([name, type]) => ({ name, type }));
+  }
+
+  if (table instanceof dynamodb.TableV2) {
+    // TableV2 はキースキーマを公開していないため L1 の定義から解決する
+    const cfnTable = table.node.defaultChild as dynamodb.CfnGlobalTable;
+    const stack = cdk.Stack.of(table);
+    const keySchema: dynamodb.CfnGlobalTable.KeySchemaProperty[] = stack.resolve(
+      cfnTable.keySchema
+    );
+    const localIndexes: dynamodb.CfnGlobalTable.LocalSecondaryIndexProperty[] =
+      stack.resolve(cfnTable.localSecondaryIndexes) ?? [];
+    const definitions: dynamodb.CfnGlobalTable.AttributeDefinitionProperty[] =
+      stack.resolve(cfnTable.attributeDefinitions);
+    const keyNames = new Set(
+      [keySchema, ...localIndexes.map((lsi) => lsi.keySchema)]
+        .flat()
+        .map((key) => (key as dynamodb.CfnGlobalTable.KeySchemaProperty).attributeName)
+    );
+    return definitions
+      .filter((definition) => keyNames.has(definition.attributeName))
+      .map((definition) => ({
+        name: definition.attributeName,
+        type: definition.attributeType as AttributeTypeCode,
+      }));
+  }
+
+  return [];
+};
+
+/**
+ * このアプリで定義したテーブルの課金モードを synth 時に読み取る。
+ * インポートしたテーブルは課金モードが分からないため undefined を返す。
+ */
+const readTableBillingMode = (
+  table: dynamodb.ITable | dynamodb.ITableV2
+): TableBillingMode | undefined => {
+  if (table instanceof dynamodb.Table) {
+    // 省略時は CloudFormation の既定値 PROVISIONED
+    const cfnTable = table.node.defaultChild as dynamodb.CfnTable;
+    return cdk.Stack.of(table).resolve(cfnTable.billingMode) === "PAY_PER_REQUEST"
+      ? "PAY_PER_REQUEST"
+      : "PROVISIONED";
+  }
+
+  if (table instanceof dynamodb.TableV2) {
+    // 省略時は CloudFormation の既定値 PAY_PER_REQUEST
+    const cfnTable = table.node.defaultChild as dynamodb.CfnGlobalTable;
+    return cdk.Stack.of(table).resolve(cfnTable.billingMode) === "PROVISIONED"
+      ? "PROVISIONED"
+      : "PAY_PER_REQUEST";
+  }
+
+  return undefined;
+};
+
 export class GsiManager extends Construct {
+  /**
+   * YAML / JSON の GSI 定義ファイルから GsiManager を作成する。
+   * ファイルは同梱の JSON Schema（`schema/gsi-config.schema.json`）で検証される。
+   * `errorHandling` は props で指定した項目がファイルより優先される。
+   *
+   * @throws ファイルの構文エラーまたはスキーマ違反がある場合（ファイル名と行・列を含む）
+   */
+  static fromConfigFile(
+    scope: Construct,
+    id: string,
+    props: GsiManagerFromConfigFileProps
+  ): GsiManager {
+    const { configFile, ...rest } = props;
+    const config = loadGsiConfigFile(configFile);
+    return new GsiManager(scope, id, {
+      ...rest,
+      globalSecondaryIndexes: config.globalSecondaryIndexes,
+      errorHandling:
+        config.errorHandling || rest.errorHandling
+          ? { ...config.errorHandling, ...rest.errorHandling }
+          : undefined,
+    });
+  }
+
   readonly customResource: cdk.CustomResource;
+  /**
+   * onEventHandler が算出した操作計画と進捗を保存するテーブル（共有 Provider の場合はスタック内で共有）。
+   * デプロイ中の進捗確認や、失敗したデプロイの再開に使用される。
+   */
+  readonly operationStateTable: dynamodb.Table;
+  /**
+   * カスタムリソースプロバイダー（`shareProvider: true` の場合はスタック内で共有）。
+   */
+  readonly provider: GsiManagerProvider;
+  private readonly table: dynamodb.ITable;
+  private readonly configuredIndexNames: string[];
 
   constructor(scope: Construct, id: string, props: GsiManagerConstructProps) {
     super(scope, id);
-
-    const logGroup = new logs.LogGroup(this, "HandlerLogGroup", {
-      retention: props.logRetention ?? logs.RetentionDays.ONE_WEEK,
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
-    });
-
-    // onEventHandler（操作開始）
-    const onEventHandler = new lambdaNodejs.NodejsFunction(
-      this,
-      "OnEventHandler",
-      {
-        entry: path.join(__dirname, "../lambda/gsi-manager/src/handler.ts"),
-        handler: "onEventHandler",
-        runtime: lambda.Runtime.NODEJS_20_X,
-        timeout: props.timeout ?? Duration.minutes(3), // 操作開始のみなので短くてOK
-        memorySize: 512,
-        bundling: {
-          minify: true,
-          externalModules: ["aws-sdk"],
-          target: "node20",
-          format: lambdaNodejs.OutputFormat.CJS,
-        },
-        logGroup: logGroup,
-      }
+    this.table = props.table;
+    this.configuredIndexNames = props.globalSecondaryIndexes.map(
+      (config) => config.indexName
     );
 
-    // isCompleteHandler（完了確認）
-    const isCompleteHandler = new lambdaNodejs.NodejsFunction(
-      this,
-      "IsCompleteHandler",
-      {
-        entry: path.join(
-          __dirname,
-          "../lambda/gsi-manager/src/is-complete-handler.ts"
-        ),
-        handler: "isCompleteHandler",
-        runtime: lambda.Runtime.NODEJS_20_X,
-        timeout: Duration.minutes(5), // 短めでOK（状態確認のみ）
-        memorySize: 512,
-        bundling: {
-          minify: true,
-          externalModules: ["aws-sdk"],
-          target: "node20",
-          format: lambdaNodejs.OutputFormat.CJS,
-        },
-        logGroup: logGroup,
-      }
-    );
+    // Lambda と同じ検証を synth 時に実行し、CloudFormation の往復を待たずに失敗させる
+    this.reportConfigurationIssues(props);
 
-    // 両方のハンドラーに権限を付与
-    props.table.grantReadWriteData(onEventHandler);
-    props.table.grant(
-      onEventHandler,
-      "dynamodb:UpdateTable",
-      "dynamodb:DescribeTable"
-    );
+    this.provider = props.shareProvider
+      ? GsiManagerProvider.getOrCreate(this, props)
+      : GsiManagerProvider.createDedicated(this, props);
+    this.operationStateTable = this.provider.operationStateTable;
 
-    props.table.grantReadWriteData(isCompleteHandler);
-    props.table.grant(
-      isCompleteHandler,
-      "dynamodb:UpdateTable",
-      "dynamodb:DescribeTable"
+    // ハンドラーはコントロールプレーン API のみを使用するため、データの読み書き権限は付与しない。
+    // インポートしたテーブルでも同じになるよう、テーブル ARN から権限を組み立てる
+    const tableArn = props.table.tableArn;
+    this.addToHandlerRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["dynamodb:DescribeTable", "dynamodb:UpdateTable"],
+        resources: [tableArn],
+      })
     );
 
-    // Provider に両方のハンドラーを設定
-    const provider = new customResources.Provider(this, "Provider", {
-      onEventHandler: onEventHandler,
-      isCompleteHandler: isCompleteHandler,
-      queryInterval: Duration.seconds(15), // ポーリング間隔
-      totalTimeout: Duration.hours(2), // 全体タイムアウト（2時間）
-    });
+    // Contributor Insights を使う場合のみ必要な権限
+    if (
+      props.globalSecondaryIndexes.some(
+        (config) => config.contributorInsights !== undefined
+      )
+    ) {
+      this.addToHandlerRolePolicy(
+        new iam.PolicyStatement({
+          actions: [
+            "dynamodb:DescribeContributorInsights",
+            "dynamodb:UpdateContributorInsights",
+          ],
+          resources: [tableArn, `${tableArn}/index/*`],
+        })
+      );
+      // 初回有効化時に DynamoDB がサービスリンクロールを作成する
+      this.addToHandlerRolePolicy(
+        new iam.PolicyStatement({
+          actions: ["iam:CreateServiceLinkedRole"],
+          resources: ["*"],
+          conditions: {
+            StringEquals: {
+              "iam:AWSServiceName": "contributorinsights.dynamodb.amazonaws.com",
+            },
+          },
+        })
+      );
+    }
 
     const tableName = props.tableName ?? props.table.tableName;
 
     this.customResource = new cdk.CustomResource(this, "Resource", {
-      serviceToken: provider.serviceToken,
+      serviceToken: this.provider.serviceToken,
       properties: {
         tableName,
         globalSecondaryIndexes: props.globalSecondaryIndexes,
         errorHandling: props.errorHandling,
+        dryRun: props.dryRun,
+        unmanagedIndexPolicy: props.unmanagedIndexPolicy,
+        billingMode: props.billingMode,
+        tableProvisionedThroughput: props.tableProvisionedThroughput,
+        waiter: props.waiter,
+        operationTimeoutSeconds: props.operationTimeout?.toSeconds(),
       },
     });
+    // 専用 Provider の ID "Default" と "Resource" が並ぶため、既定の子を明示する
+    this.node.defaultChild = this.customResource;
+
+    // ドライランではインデックスを作成しないため、存在しないインデックスへの
+    // スケーラブルターゲットの登録でデプロイが失敗しないよう作成しない
+    if (props.dryRun) {
+      if (props.globalSecondaryIndexes.some((gsi) => gsi.autoScaling)) {
+        cdk.Annotations.of(this).addWarningV2(
+          "gsi-manager:AUTO_SCALING_SKIPPED_IN_DRY_RUN",
+          "dryRun is enabled, so autoScaling is not configured; it is registered once dryRun is turned off."
+        );
+      }
+    } else {
+      this.configureAutoScaling(tableName, props.globalSecondaryIndexes);
+    }
 
-    this.customResource.node.addDependency(props.table);
+    if (props.permissionsBoundary) {
+      iam.PermissionsBoundary.of(this).apply(props.permissionsBoundary);
+    }
+
+    // インポートしたテーブルはこのスタックのリソースではないため依存関係を張らない
+    if (cdk.Resource.isOwnedResource(props.table)) {
+      this.customResource.node.addDependency(props.table);
+    }
+  }
+
+  private reportConfigurationIssues(props: GsiManagerConstructProps): void {
+    // ベーステーブルのキー属性と GSI キーの型の衝突、オンデマンドのテーブルへの
+    // autoScaling も synth 時に検出する
+    const issues = collectGsiConfigurationIssues(props.globalSecondaryIndexes, {
+      tableAttributes: readTableKeyAttributes(props.table),
+      billingMode: props.billingMode,
+      tableProvisionedThroughput: props.tableProvisionedThroughput,
+      tableBillingMode: readTableBillingMode(props.table),
+      unmanagedIndexPolicy: props.unmanagedIndexPolicy,
+    });
+
+    issues.forEach((issue) => {
+      const message = formatGsiValidationIssue(issue);
+      if (issue.severity === "error") {
+        cdk.Annotations.of(this).addError(message);
+      } else {
+        cdk.Annotations.of(this).addWarningV2(`gsi-manager:${issue.code}`, message);
+      }
+    });
+
+    // 課金モードは CloudFormation の外で切り替えるため、このアプリで定義したテーブルでは
+    // テンプレートの課金モードと実際の値がずれる
+    if (
+      props.billingMode &&
+      (props.table instanceof dynamodb.Table || props.table instanceof dynamodb.TableV2)
+    ) {
+      cdk.Annotations.of(this).addWarningV2(
+        "gsi-manager:BILLING_MODE_ON_OWNED_TABLE",
+        `billingMode switches the billing mode of "${props.table.node.path}" with UpdateTable outside of CloudFormation, ` +
+          `so the table's template drifts from the deployed table. Set the billing mode on the Table itself, ` +
+          `or use billingMode only with imported tables.`
+      );
+    }
+  }
+
+  /**
+   * `autoScaling` を指定した GSI にスケーラブルターゲットとターゲット追跡ポリシーを作成する。
+   * リソース ID には物理インデックス名の属性を使うため、インデックスの作成（および
+   * blueGreen 置換）が完了してからスケーリングが登録される。
+   */
+  private configureAutoScaling(
+    tableName: string,
+    configurations: GSIConfiguration[]
+  ): void {
+    configurations.forEach((config) => {
+      if (!config.autoScaling) {
+        return;
+      }
+
+      const resourceId = `table/${tableName}/index/${this.physicalIndexName(config.indexName)}`;
+      const dimensions = [
+        {
+          capacity: config.autoScaling.read,
+          name: "Read",
+          scalableDimension: "dynamodb:index:ReadCapacityUnits",
+          predefinedMetric:
+            appscaling.PredefinedMetric.DYNAMODB_READ_CAPACITY_UTILIZATION,
+        },
+        {
+          capacity: config.autoScaling.write,
+          name: "Write",
+          scalableDimension: "dynamodb:index:WriteCapacityUnits",
+          predefinedMetric:
+            appscaling.PredefinedMetric.DYNAMODB_WRITE_CAPACITY_UTILIZATION,
+        },
+      ];
+
+      dimensions.forEach(({ capacity, name, scalableDimension, predefinedMetric }) => {
+        if (!capacity) {
+          return;
+        }
+
+        const target = new appscaling.ScalableTarget(
+          this,
+          `${config.indexName}${name}Scaling`,
+          {
+            serviceNamespace: appscaling.ServiceNamespace.DYNAMODB,
+            resourceId,
+            scalableDimension,
+            minCapacity: capacity.minCapacity,
+            maxCapacity: capacity.maxCapacity,
+          }
+        );
+        target.scaleToTrackMetric(`${name}Tracking`, {
+          predefinedMetric,
+          targetValue: capacity.targetUtilizationPercent,
+        });
+      });
+    });
   }
 
   get managedIndexNames(): string[] {
     const indexes = this.customResource.getAttString("managedIndexes");
     return cdk.Fn.split(",", indexes);
   }
+
+  /**
+   * 論理インデックス名に対応する物理インデックス名を取得する。
+   * `replacementStrategy: "blueGreen"` で置換された GSI は `GSI1__v2` のような
+   * バージョン付きの名前になるため、アプリケーションはこの値を参照してクエリ先を切り替える。
+   */
+  physicalIndexName(indexName: string): string {
+    return this.customResource.getAttString(`physicalIndexName.${indexName}`);
+  }
+
+  /**
+   * onEventHandler と isCompleteHandler の両方のロールにポリシーステートメントを追加する。
+   * 既定ではテーブルの DescribeTable / UpdateTable のみが許可されているため、
+   * 独自の拡張で追加の API を呼ぶ場合に使用する。
+   * `shareProvider: true` の場合、ハンドラーは共有されるため、Provider を共有する他の GsiManager にも適用される。
+   */
+  addToHandlerRolePolicy(statement: iam.PolicyStatement): void {
+    this.provider.addToHandlerRolePolicy(statement);
+  }
+
+  /**
+   * 論理インデックス名に対応するインデックスの ARN を取得する。
+   * 物理インデックス名を参照するため、blueGreen 置換後も現在のインデックスを指す。
+   */
+  indexArn(indexName: string): string {
+    this.assertManagedIndex(indexName);
+    return `${this.table.tableArn}/index/${this.physicalIndexName(indexName)}`;
+  }
+
+  /**
+   * 指定した GSI への Query のみを許可する（テーブル本体や他のインデックスは対象外）。
+   * テーブルが KMS キーで暗号化されている場合は復号権限も付与する。
+   */
+  grantQueryIndex(grantee: iam.IGrantable, indexName: string): iam.Grant {
+    return this.grantOnIndexes(grantee, ["dynamodb:Query"], [indexName]);
+  }
+
+  /**
+   * このコンストラクトが管理するすべての GSI への Query / Scan を許可する。
+   */
+  grantReadIndexes(grantee: iam.IGrantable): iam.Grant {
+    return this.grantOnIndexes(
+      grantee,
+      ["dynamodb:Query", "dynamodb:Scan"],
+      this.configuredIndexNames
+    );
+  }
+
+  private grantOnIndexes(
+    grantee: iam.IGrantable,
+    actions: string[],
+    indexNames: string[]
+  ): iam.Grant {
+    this.table.encryptionKey?.grantDecrypt(grantee);
+    return iam.Grant.addToPrincipal({
+      grantee,
+      actions,
+      resourceArns: indexNames.map((indexName) => this.indexArn(indexName)),
+    });
+  }
+
+  private assertManagedIndex(indexName: string): void {
+    if (!this.configuredIndexNames.includes(indexName)) {
+      throw new Error(
+        `GSI "${indexName}" is not managed by this GsiManager (managed: ${this.configuredIndexNames.join(", ")}).`
+      );
+    }
+  }
 }
@@ -0,0 +1,323 @@
+import * as path from "node:path";
+import * as cdk from "aws-cdk-lib";
+import { Duration } from "aws-cdk-lib";
+import * as customResources from "aws-cdk-lib/custom-resources";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as lambdaNodejs from "aws-cdk-lib/aws-lambda-nodejs";
+import * as logs from "aws-cdk-lib/aws-logs";
+import { Construct } from "constructs";
+
+/**
+ * onEventHandler / isCompleteHandler の Lambda 設定。
+ * 指定しない項目は既定値（Node.js 20 / x86_64 / 512MB）を使用する。
+ */
+export interface GsiManagerHandlerOptions {
+  /**
+   * Lambda ランタイム。バンドルのターゲットもランタイムに合わせて決まる。
+   */
+  runtime?: lambda.Runtime;
+  /**
+   * 命令セットアーキテクチャ。省略時は x86_64。
+   */
+  architecture?: lambda.Architecture;
+  /**
+   * メモリサイズ（MB）。省略時は512。
+   */
+  memorySize?: number;
+  /**
+   * isCompleteHandler のタイムアウト。省略時は5分。
+   * onEventHandler のタイムアウトは `timeout` で指定する。
+   */
+  isCompleteTimeout?: Duration;
+  /**
+   * ハンドラーを配置する VPC。DynamoDB へ到達できるよう
+   * ゲートウェイエンドポイントまたは NAT を用意しておくこと。
+   */
+  vpc?: ec2.IVpc;
+  /**
+   * VPC 内で使用するサブネット。
+   */
+  vpcSubnets?: ec2.SubnetSelection;
+  /**
+   * ハンドラーに適用するセキュリティグループ。
+   */
+  securityGroups?: ec2.ISecurityGroup[];
+  /**
+   * 追加の環境変数。コンストラクトが設定する変数と同名の場合はコンストラクト側が優先される。
+   */
+  environment?: Record<string, string>;
+  /**
+   * 各ハンドラーの予約同時実行数。
+   */
+  reservedConcurrentExecutions?: number;
+  /**
+   * X-Ray トレーシング。`Tracing.ACTIVE` の場合は DynamoDB 呼び出しごとにサブセグメントを記録する。
+   */
+  tracing?: lambda.Tracing;
+}
+
+/**
+ * GsiManager の Provider の設定。
+ * 共有 Provider（`shareProvider: true`）はスタックごとに1つだけ作成されるため、最初の GsiManager の値が使われる。
+ */
+export interface GsiManagerProviderProps {
+  /**
+   * Lambdaログの保持期間。省略時は1週間。
+   */
+  logRetention?: logs.RetentionDays;
+  /**
+   * Lambdaのタイムアウト。省略時は15分。
+   */
+  timeout?: Duration;
+  /**
+   * Provider が isCompleteHandler を呼び出す間隔。省略時は15秒。
+   */
+  queryInterval?: Duration;
+  /**
+   * Provider 全体のタイムアウト。省略時は1時間。
+   * Provider フレームワークと CloudFormation のカスタムリソースの上限が1時間のため、
+   * それを超える値は合成時のエラーになる。
+   */
+  totalTimeout?: Duration;
+  /**
+   * このコンストラクトが作成するすべての IAM ロールに適用する Permissions Boundary。
+   */
+  permissionsBoundary?: iam.IManagedPolicy;
+  /**
+   * ハンドラーのロググループを暗号化するカスタマーマネージド KMS キー。
+   * CloudWatch Logs サービスプリンシパルへの暗号化/復号権限はキーポリシーに追加される。
+   */
+  logEncryptionKey?: kms.IKey;
+  /**
+   * ハンドラー Lambda のランタイム・メモリ・VPC などの設定。
+   */
+  handlerOptions?: GsiManagerHandlerOptions;
+}
+
+const PROVIDER_ID = "GsiManagerProvider";
+
+// Provider フレームワークの totalTimeout の上限（CloudFormation はこれより長く待たない）
+const MAX_TOTAL_TIMEOUT = Duration.hours(1);
+
+// "Default" は論理 ID の算出から除外されるため、専用 Provider のリソースは
+// Provider をコンストラクトに直接作成していたバージョンと同じ論理 ID になる
+const DEDICATED_PROVIDER_ID = "Default";
+
+const PROVIDER_PROP_NAMES: Array<keyof GsiManagerProviderProps> = [
+  "logRetention",
+  "timeout",
+  "queryInterval",
+  "totalTimeout",
+  "permissionsBoundary",
+  "logEncryptionKey",
+  "handlerOptions",
+];
+
+/**
+ * ランタイム名（例: `nodejs22.x`）から esbuild のターゲット（例: `node22`）を求める。
+ */
+const toBundlingTarget = (runtime: lambda.Runtime): string => {
+  const match = /^nodejs(\d+)/.exec(runtime.name);
+  return match ? `node${match[1]}` : "node20";
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * 設定値が同じかを判定する。Duration は値で、コンストラクトなどは参照で比較する。
+ */
+const isSameSetting = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof Duration && b instanceof Duration) {
+    return a.toMilliseconds() === b.toMilliseconds();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isSameSetting(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isSameSetting(a[key], b[key]));
+  }
+  return false;
+};
+
+/**
+ * GSI 管理用のカスタムリソースプロバイダー。
+ *
+ * onEventHandler / isCompleteHandler、ロググループ、操作状態テーブル、Provider を1組作成する。
+ * 既定では GsiManager ごとに専用の Provider を作成し（`createDedicated`）、
+ * `shareProvider: true` の GsiManager はスタックに1つだけ作成される Provider を共有する（`getOrCreate`）。
+ * テーブルごとの IAM 権限は各 GsiManager がハンドラーのロールに追加する。
+ */
+export class GsiManagerProvider extends Construct {
+  /**
+   * GsiManager 専用の Provider を `scope` の直下に作成する。
+   * リソースの論理 ID は共有 Provider 導入前のバージョンと同じになるため、
+   * 既存のカスタムリソースの ServiceToken は変わらない。
+   */
+  static createDedicated(
+    scope: Construct,
+    props: GsiManagerProviderProps = {}
+  ): GsiManagerProvider {
+    return new GsiManagerProvider(scope, DEDICATED_PROVIDER_ID, props);
+  }
+
+  /**
+   * スタックの共有 Provider を取得する。存在しない場合は `props` で作成する。
+   * 既に作成済みの場合、`props` のうち作成時と異なる値は無視され、`scope` に警告が出力される。
+   */
+  static getOrCreate(
+    scope: Construct,
+    props: GsiManagerProviderProps = {}
+  ): GsiManagerProvider {
+    const stack = cdk.Stack.of(scope);
+    const existing = stack.node.tryFindChild(PROVIDER_ID);
+    if (!existing) {
+      return new GsiManagerProvider(stack, PROVIDER_ID, props);
+    }
+
+    const provider = existing as GsiManagerProvider;
+    const ignored = PROVIDER_PROP_NAMES.filter(
+      (name) =>
+        props[name] !== undefined && !isSameSetting(props[name], provider.props[name])
+    );
+    if (ignored.length > 0) {
+      cdk.Annotations.of(scope).addWarningV2(
+        "gsi-manager:PROVIDER_SETTINGS_IGNORED",
+        `The GSI manager provider is shared by every GsiManager in stack "${stack.stackName}" and was created by the first one; ` +
+          `${ignored.map((name) => `"${name}"`).join(", ")} differ from that instance and are ignored.`
+      );
+    }
+    return provider;
+  }
+
+  /** カスタムリソースの ServiceToken */
+  readonly serviceToken: string;
+  /**
+   * onEventHandler が算出した操作計画と進捗を保存するテーブル。
+   * デプロイ中の進捗確認や、失敗したデプロイの再開に使用される。
+   */
+  readonly operationStateTable: dynamodb.Table;
+  private readonly props: GsiManagerProviderProps;
+  private readonly handlers: lambda.IFunction[];
+
+  private constructor(scope: Construct, id: string, props: GsiManagerProviderProps) {
+    super(scope, id);
+    this.props = props;
+
+    // 操作計画の状態ストア（カスタムリソースごとに1アイテム）
+    this.operationStateTable = new dynamodb.Table(this, "OperationStateTable", {
+      partitionKey: { name: "resourceKey", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+    const handlerOptions = props.handlerOptions ?? {};
+    const tracingEnabled = handlerOptions.tracing === lambda.Tracing.ACTIVE;
+    const handlerEnvironment = {
+      ...handlerOptions.environment,
+      GSI_MANAGER_STATE_TABLE_NAME: this.operationStateTable.tableName,
+      ...(tracingEnabled ? { GSI_MANAGER_TRACING_ENABLED: "true" } : {}),
+    };
+
+    if (props.logEncryptionKey) {
+      props.logEncryptionKey.grantEncryptDecrypt(
+        new iam.ServicePrincipal(`logs.${cdk.Stack.of(this).region}.amazonaws.com`)
+      );
+    }
+    const logGroup = new logs.LogGroup(this, "HandlerLogGroup", {
+      retention: props.logRetention ?? logs.RetentionDays.ONE_WEEK,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      encryptionKey: props.logEncryptionKey,
+    });
+
+    const runtime = handlerOptions.runtime ?? lambda.Runtime.NODEJS_20_X;
+    const sharedHandlerProps: lambdaNodejs.NodejsFunctionProps = {
+      runtime,
+      architecture: handlerOptions.architecture,
+      memorySize: handlerOptions.memorySize ?? 512,
+      bundling: {
+        minify: true,
+        externalModules: ["aws-sdk"],
+        target: toBundlingTarget(runtime),
+        format: lambdaNodejs.OutputFormat.CJS,
+      },
+      vpc: handlerOptions.vpc,
+      vpcSubnets: handlerOptions.vpcSubnets,
+      securityGroups: handlerOptions.securityGroups,
+      reservedConcurrentExecutions: handlerOptions.reservedConcurrentExecutions,
+      tracing: handlerOptions.tracing,
+      environment: handlerEnvironment,
+      logGroup: logGroup,
+    };
+
+    // onEventHandler（操作開始）
+    const onEventHandler = new lambdaNodejs.NodejsFunction(
+      this,
+      "OnEventHandler",
+      {
+        ...sharedHandlerProps,
+        entry: path.join(__dirname, "../lambda/gsi-manager/src/handler.ts"),
+        handler: "onEventHandler",
+        timeout: props.timeout ?? Duration.minutes(3), // 操作開始のみなので短くてOK
+      }
+    );
+
+    // isCompleteHandler（完了確認）
+    const isCompleteHandler = new lambdaNodejs.NodejsFunction(
+      this,
+      "IsCompleteHandler",
+      {
+        ...sharedHandlerProps,
+        entry: path.join(
+          __dirname,
+          "../lambda/gsi-manager/src/is-complete-handler.ts"
+        ),
+        handler: "isCompleteHandler",
+        timeout: handlerOptions.isCompleteTimeout ?? Duration.minutes(5), // 短めでOK（状態確認のみ）
+      }
+    );
+
+    this.handlers = [onEventHandler, isCompleteHandler];
+    this.operationStateTable.grantReadWriteData(onEventHandler);
+    this.operationStateTable.grantReadWriteData(isCompleteHandler);
+
+    const totalTimeout = props.totalTimeout ?? MAX_TOTAL_TIMEOUT;
+    if (totalTimeout.toSeconds() > MAX_TOTAL_TIMEOUT.toSeconds()) {
+      cdk.Annotations.of(this).addError(
+        `totalTimeout is ${totalTimeout.toHumanString()}, but the custom resource provider framework and CloudFormation stop waiting after ${MAX_TOTAL_TIMEOUT.toHumanString()}. ` +
+          `Use operationTimeout to bound individual GSI operations and redeploy to resume long backfills.`
+      );
+    }
+
+    // Provider に両方のハンドラーを設定
+    const provider = new customResources.Provider(this, "Provider", {
+      onEventHandler: onEventHandler,
+      isCompleteHandler: isCompleteHandler,
+      queryInterval: props.queryInterval ?? Duration.seconds(15), // ポーリング間隔
+      totalTimeout, // 全体タイムアウト（最大1時間）
+    });
+    this.serviceToken = provider.serviceToken;
+
+    if (props.permissionsBoundary) {
+      iam.PermissionsBoundary.of(this).apply(props.permissionsBoundary);
+    }
+  }
+
+  /**
+   * onEventHandler と isCompleteHandler の両方のロールにポリシーステートメントを追加する。
+   * 共有 Provider の場合、ハンドラーはそれを使うすべての GsiManager で共有される。
+   */
+  addToHandlerRolePolicy(statement: iam.PolicyStatement): void {
+    this.handlers.forEach((handler) => handler.addToRolePolicy(statement));
+  }
+}
@@ -0,0 +1,335 @@
+import type { TableDescription } from "@aws-sdk/client-dynamodb";
+import {
+  collectGsiConfigurationIssues,
+  collectPlannedOperationIssues,
+  formatGsiValidationIssue,
+  TABLE_OPERATION_TARGET,
+  type GSIConfiguration,
+  type GSIInfo,
+  type GSIOperation,
+} from "./types";
+import {
+  toGSIInfos,
+  toTableBillingMode,
+  toTableKeyAttributes,
+} from "../lambda/gsi-manager/src/dynamodb-gsi-service";
+import {
+  collectManagedNames,
+  parseManagerProps,
+  resolveCurrentForPlanning,
+} from "../lambda/gsi-manager/src/gsi-config-utils";
+import { toLogicalIndexName } from "../lambda/gsi-manager/src/index-naming";
+import {
+  findBlockedReplacements,
+  planGsiOperations,
+} from "../lambda/gsi-manager/src/operation-planner";
+
+/**
+ * `aws dynamodb describe-table` の出力（`{ "Table": {...} }`）または TableDescription そのものから
+ * TableDescription を取り出す。
+ *
+ * @param parsed - JSON としてパースしたファイルの内容
+ * @param source - エラーメッセージに使うファイル名
+ */
+export const toTableDescription = (parsed: unknown, source: string): TableDescription => {
+  const value = parsed as { Table?: TableDescription } & TableDescription;
+  const table = value?.Table ?? value;
+  if (!table?.TableName) {
+    throw new Error(
+      `${source} does not look like "aws dynamodb describe-table" output (no TableName).`
+    );
+  }
+  return table;
+};
+
+/**
+ * オフライン計画の入力。
+ */
+export interface GsiPlanInput {
+  /**
+   * `aws dynamodb describe-table` の出力の `Table`。
+   */
+  table: TableDescription;
+  /**
+   * GsiManager のプロパティ（`globalSecondaryIndexes`、`unmanagedIndexPolicy`、`billingMode` など）。
+   * カスタムリソースの ResourceProperties と同じ形式で、Lambda と同じパーサーで解釈される。
+   */
+  config: Record<string, unknown>;
+  /**
+   * 前回デプロイ時のプロパティ。構成から外した GSI を削除対象として検出するために使用する。
+   */
+  previousConfig?: Record<string, unknown>;
+}
+
+/**
+ * オフライン計画の結果。
+ */
+export interface GsiPlan {
+  tableName: string;
+  operations: GSIOperation[];
+  /** 操作対象から除外した（そのまま残す）非管理 GSI */
+  unmanagedIndexNames: string[];
+  /** `replacementPolicy` により拒否される置換 */
+  blockedReplacements: string[];
+  warnings: string[];
+}
+
+/**
+ * DescribeTable のスナップショットと構成から、Lambda と同じ手順で操作計画を算出する。
+ * AWS への呼び出しは行わない。
+ *
+ * @throws 構成または計画に検証エラーがある場合（残す既存 GSI とのキー属性の型の衝突を含む）、
+ *   または `unmanagedIndexPolicy: "fail"` で非管理 GSI がある場合
+ */
+export const planFromDescribeTable = (input: GsiPlanInput): GsiPlan => {
+  const tableName = input.table.TableName ?? "";
+  const props = parseManagerProps({ ...input.config, tableName });
+  const previous = input.previousConfig
+    ? parseManagerProps({ ...input.previousConfig, tableName })
+    : undefined;
+
+  const issues = collectGsiConfigurationIssues(props.globalSecondaryIndexes, {
+    tableAttributes: toTableKeyAttributes(input.table),
+    billingMode: props.billingMode,
+    tableProvisionedThroughput: props.tableProvisionedThroughput,
+    tableBillingMode: toTableBillingMode(input.table),
+    unmanagedIndexPolicy: props.unmanagedIndexPolicy,
+  });
+  const errors = issues
+    .filter((issue) => issue.severity === "error")
+    .map(formatGsiValidationIssue);
+  if (errors.length > 0) {
+    throw new Error(["Invalid GSI configuration detected:", ...errors].join("\n- "));
+  }
+  const warnings = issues
+    .filter((issue) => issue.severity === "warning")
+    .map(formatGsiValidationIssue);
+  if (props.globalSecondaryIndexes.some((gsi) => gsi.contributorInsights !== undefined)) {
+    warnings.push(
+      "Contributor Insights status is not part of DescribeTable; the plan assumes it is disabled on every existing index."
+    );
+  }
+
+  const current = toGSIInfos(input.table);
+  const { candidates, unmanagedIndexNames } = resolveCurrentForPlanning(
+    "Update",
+    current,
+    collectManagedNames(props.globalSecondaryIndexes, previous?.globalSecondaryIndexes),
+    props.unmanagedIndexPolicy
+  );
+  const operations = planGsiOperations(
+    candidates,
+    props.globalSecondaryIndexes,
+    props.billingMode
+      ? {
+          current: toTableBillingMode(input.table),
+          desired: props.billingMode,
+          tableProvisionedThroughput: props.tableProvisionedThroughput,
+          unmanagedIndexNames,
+        }
+      : undefined,
+    unmanagedIndexNames
+  );
+  const planErrors = collectPlannedOperationIssues(current, operations).map(
+    formatGsiValidationIssue
+  );
+  if (planErrors.length > 0) {
+    throw new Error(["Invalid GSI configuration detected:", ...planErrors].join("\n- "));
+  }
+
+  return {
+    tableName,
+    operations,
+    unmanagedIndexNames,
+    blockedReplacements: findBlockedReplacements(operations),
+    warnings,
+  };
+};
+
+type PlanEntryAction = "create" | "update" | "delete" | "replace";
+
+interface PlanEntry {
+  action: PlanEntryAction;
+  symbol: string;
+  name: string;
+  title: string;
+  lines: string[];
+}
+
+const describeConfiguration = (config: GSIConfiguration): string[] => [
+  `partitionKey: ${config.partitionKey.name} (${config.partitionKey.type})`,
+  ...(config.sortKey ? [`sortKey: ${config.sortKey.name} (${config.sortKey.type})`] : []),
+  `projection: ${config.projectionType ?? "ALL"}${
+    config.nonKeyAttributes?.length ? ` [${config.nonKeyAttributes.join(", ")}]` : ""
+  }`,
+  ...(config.provisionedThroughput
+    ? [
+        `provisionedThroughput: ${config.provisionedThroughput.readCapacityUnits} RCU / ${config.provisionedThroughput.writeCapacityUnits} WCU`,
+      ]
+    : []),
+];
+
+const describeInfo = (info: GSIInfo): string[] => [
+  ...info.keySchema.map(
+    (key) =>
+      `${key.keyType === "HASH" ? "partitionKey" : "sortKey"}: ${key.attributeName} (${
+        key.attributeType ?? "?"
+      })`
+  ),
+  `projection: ${info.projection.projectionType}${
+    info.projection.nonKeyAttributes?.length
+      ? ` [${info.projection.nonKeyAttributes.join(", ")}]`
+      : ""
+  }`,
+  // On-demand tables report 0/0 for every index.
+  ...(info.provisionedThroughput?.readCapacityUnits
+    ? [
+        `provisionedThroughput: ${info.provisionedThroughput.readCapacityUnits} RCU / ${info.provisionedThroughput.writeCapacityUnits} WCU`,
+      ]
+    : []),
+];
+
+// Lines that differ between the current and desired index, as "before -> after".
+const describeChanges = (before: string[], after: string[]): string[] => {
+  const toEntries = (lines: string[]) =>
+    new Map(lines.map((line) => [line.split(":")[0], line.slice(line.indexOf(":") + 2)]));
+  const previous = toEntries(before);
+  const next = toEntries(after);
+  const fields = [...new Set([...previous.keys(), ...next.keys()])];
+
+  return fields
+    .filter((field) => previous.get(field) !== next.get(field))
+    .map(
+      (field) =>
+        `${field}: ${previous.get(field) ?? "(none)"} -> ${next.get(field) ?? "(none)"}`
+    );
+};
+
+// Replacement steps (DELETE+CREATE or blue/green CREATE+DELETE) collapse into one entry
+// per logical index so a reviewer sees a single "-/+" line.
+const toPlanEntries = (operations: GSIOperation[]): PlanEntry[] => {
+  const entries: PlanEntry[] = [];
+  const replacements = new Map<string, PlanEntry>();
+
+  operations.forEach((operation) => {
+    const desired = operation.desiredConfiguration;
+    const current = operation.currentConfiguration;
+
+    if (operation.replacement) {
+      const logicalName = toLogicalIndexName(operation.indexName);
+      let entry = replacements.get(logicalName);
+      if (!entry) {
+        // Whichever step comes first decides whether the index is ever missing.
+        const destroyFirst = operation.type === "DELETE";
+        entry = {
+          action: "replace",
+          symbol: destroyFirst ? "-/+" : "+/-",
+          name: logicalName,
+          title: destroyFirst
+            ? `${logicalName} must be replaced (DESTRUCTIVE: the index is deleted and rebuilt; queries against it fail until the backfill completes)`
+            : `${logicalName} will be replaced by a new index before the old one is deleted`,
+          lines: [],
+        };
+        replacements.set(logicalName, entry);
+        entries.push(entry);
+      }
+      if (operation.type === "CREATE" && desired) {
+        entry.lines.push(
+          ...(current
+            ? describeChanges(describeInfo(current), describeConfiguration(desired))
+            : describeConfiguration(desired)),
+          ...(desired.indexName !== current?.indexName
+            ? [`physicalName: ${current?.indexName ?? "(none)"} -> ${desired.indexName}`]
+            : []),
+          `# ${operation.reason ?? "replacement required"}`
+        );
+      }
+      return;
+    }
+
+    switch (operation.type) {
+      case "CREATE":
+        entries.push({
+          action: "create",
+          symbol: "+",
+          name: operation.indexName,
+          title: `${operation.indexName} will be created`,
+          lines: desired ? describeConfiguration(desired) : [],
+        });
+        return;
+      case "DELETE":
+        entries.push({
+          action: "delete",
+          symbol: "-",
+          name: operation.indexName,
+          title: `${operation.indexName} will be deleted (${operation.reason ?? ""})`,
+          lines: current ? describeInfo(current) : [],
+        });
+        return;
+      case "UPDATE":
+        entries.push({
+          action: "update",
+          symbol: "~",
+          name: operation.indexName,
+          title: `${operation.indexName} will be updated in place`,
+          lines: [`# ${operation.reason ?? ""}`],
+        });
+        return;
+      case "UPDATE_BILLING_MODE":
+        entries.push({
+          action: "update",
+          symbol: "~",
+          name: TABLE_OPERATION_TARGET,
+          title: `${TABLE_OPERATION_TARGET} will be updated in place`,
+          lines: [
+            `billingMode: ${operation.billingModeChange?.from} -> ${operation.billingModeChange?.to}`,
+          ],
+        });
+        return;
+    }
+  });
+
+  return entries;
+};
+
+/**
+ * 操作計画を terraform plan 風のテキストに整形する。
+ * 削除してから再作成する置換（`replacementStrategy: "recreate"`）は `-/+` と DESTRUCTIVE で示す。
+ */
+export const renderPlan = (plan: GsiPlan): string => {
+  const entries = toPlanEntries(plan.operations);
+  const count = (action: PlanEntryAction) =>
+    entries.filter((entry) => entry.action === action).length;
+  const output: string[] = [`GSI plan for table ${plan.tableName}`, ""];
+
+  if (entries.length === 0) {
+    output.push("No changes. The table's GSIs match the configuration.");
+  }
+  entries.forEach((entry) => {
+    output.push(`  # ${entry.title}`);
+    output.push(`${entry.symbol.padStart(3)} ${entry.name}`);
+    entry.lines.forEach((line) => output.push(`      ${line}`));
+    output.push("");
+  });
+
+  if (plan.unmanagedIndexNames.length > 0) {
+    output.push(
+      `Unmanaged GSIs left untouched: ${plan.unmanagedIndexNames.join(", ")}`,
+      ""
+    );
+  }
+  plan.warnings.forEach((warning) => output.push(`Warning: ${warning}`));
+  plan.blockedReplacements.forEach((message) =>
+    output.push(`Error: replacement would be rejected: ${message}`)
+  );
+  if (plan.warnings.length > 0 || plan.blockedReplacements.length > 0) {
+    output.push("");
+  }
+
+  output.push(
+    `Plan: ${count("create")} to add, ${count("update")} to change, ${count(
+      "delete"
+    )} to destroy, ${count("replace")} to replace.`
+  );
+  return output.join("\n");
+};
@@ -2,7 +2,15 @@
 
 export type AttributeTypeCode = "S" | "N" | "B";
 export type ProjectionType = "ALL" | "KEYS_ONLY" | "INCLUDE";
-export type GSIOperationType = "CREATE" | "UPDATE" | "DELETE";
+export type GSIOperationType =
+  | "CREATE"
+  | "UPDATE"
+  | "DELETE"
+  | "UPDATE_BILLING_MODE";
+export type TableBillingMode = "PROVISIONED" | "PAY_PER_REQUEST";
+export type UnmanagedIndexPolicy = "adopt" | "retain" | "fail";
+export type ReplacementPolicy = "allow" | "deny" | "requireConfirmationToken";
+export type ReplacementStrategy = "recreate" | "blueGreen";
 
 export interface AttributeDefinition {
   name: string;
@@ -14,6 +22,28 @@ export interface ProvisionedThroughput {
   writeCapacityUnits: number;
 }
 
+export interface WarmThroughput {
+  readUnitsPerSecond?: number;
+  writeUnitsPerSecond?: number;
+}
+
+export interface OnDemandThroughput {
+  maxReadRequestUnits?: number;
+  maxWriteRequestUnits?: number;
+}
+
+export interface AutoScalingCapacity {
+  minCapacity: number;
+  maxCapacity: number;
+  /** ターゲット追跡スケーリングの目標使用率（%）。20〜90 の範囲で指定する */
+  targetUtilizationPercent: number;
+}
+
+export interface GSIAutoScaling {
+  read?: AutoScalingCapacity;
+  write?: AutoScalingCapacity;
+}
+
 export interface GSIConfiguration {
   indexName: string;
   partitionKey: AttributeDefinition;
@@ -21,23 +51,111 @@ export interface GSIConfiguration {
   projectionType?: ProjectionType;
   nonKeyAttributes?: string[];
   provisionedThroughput?: ProvisionedThroughput;
+  /**
+   * インデックスが即座に処理できる読み込み/書き込みユニット数（毎秒）。
+   * 作成時に指定するほか、既存インデックスでは現在値より大きい場合に
+   * インプレースの UPDATE で引き上げる（DynamoDB はウォームスループットの引き下げを許可しない）。
+   */
+  warmThroughput?: WarmThroughput;
+  /**
+   * PAY_PER_REQUEST テーブルでインデックスが消費できる読み込み/書き込みリクエストユニットの上限。
+   * `-1` は上限なしを表す。作成時に適用され、変更はインプレースの UPDATE で反映される。
+   * PROVISIONED テーブルでは無視される。
+   */
+  onDemandThroughput?: OnDemandThroughput;
+  /**
+   * PROVISIONED テーブルで Application Auto Scaling にキャパシティを管理させる設定。
+   * GsiManager Construct がスケーラブルターゲットとターゲット追跡ポリシーを作成する。
+   * 指定した場合、`provisionedThroughput` は作成時の初期値としてのみ使用され、
+   * 以降のスループット UPDATE は行わない（スケーリングによる調整を上書きしないため）。
+   */
+  autoScaling?: GSIAutoScaling;
+  /**
+   * CloudWatch Contributor Insights を有効にするか。インデックスが ACTIVE になってから
+   * UpdateContributorInsights で適用される（再作成されたインデックスにも自動で再適用される）。
+   * 省略時は現在の設定を変更しない。
+   */
+  contributorInsights?: boolean;
+  /**
+   * キースキーマ・Projection の変更によりインデックスの削除・再作成（置換）が
+   * 必要になった場合の扱い。
+   * - `allow`: そのまま置換する（デフォルト）
+   * - `deny`: 置換が必要になった時点でデプロイを失敗させる
+   * - `requireConfirmationToken`: `replacementConfirmationToken` が変更内容に対応する
+   *   トークンと一致する場合のみ置換する
+   */
+  replacementPolicy?: ReplacementPolicy;
+  /**
+   * `replacementPolicy: "requireConfirmationToken"` のときに置換を承認するトークン。
+   * 期待値はデプロイ失敗時のエラーメッセージまたは dryRun の計画に出力される。
+   */
+  replacementConfirmationToken?: string;
+  /**
+   * 置換の実行方法。
+   * - `recreate`: 既存インデックスを削除してから同名で再作成する（デフォルト）
+   * - `blueGreen`: バージョン付きのシャドウインデックス（例: `GSI1__v2`）を先に作成し、
+   *   ACTIVE になってから旧インデックスを削除する。物理名は `GsiManager.physicalIndexName()` で参照できる
+   */
+  replacementStrategy?: ReplacementStrategy;
 }
 
 export interface GSIInfo {
   indexName: string;
-  keySchema: Array<{ attributeName: string; keyType: "HASH" | "RANGE" }>;
+  keySchema: Array<{
+    attributeName: string;
+    keyType: "HASH" | "RANGE";
+    /** DescribeTable の AttributeDefinitions から解決した型。不明な場合は undefined */
+    attributeType?: AttributeTypeCode;
+  }>;
   projection: {
     projectionType: ProjectionType;
     nonKeyAttributes?: string[];
   };
   indexStatus?: string;
   provisionedThroughput?: ProvisionedThroughput;
+  warmThroughput?: WarmThroughput;
+  onDemandThroughput?: OnDemandThroughput;
+  /** DescribeContributorInsights の結果（ENABLED / ENABLING を true とする）。未取得の場合は undefined */
+  contributorInsights?: boolean;
 }
 
 export interface GSIManagerProps {
   tableName: string;
   globalSecondaryIndexes: GSIConfiguration[];
   errorHandling?: Partial<ErrorHandlingConfig>;
+  /**
+   * true の場合は操作計画の算出のみを行い、GSI の作成・更新・削除は実行しない。
+   * 計画内容はカスタムリソースの Data とログに出力される。
+   * GsiManager は autoScaling のスケーリング設定も作成しない。
+   */
+  dryRun?: boolean;
+  /**
+   * 構成に含まれない既存 GSI（手動作成・他スタック所有など）の扱い。
+   * - `retain`: 操作対象から除外してそのまま残す（デフォルト）
+   * - `adopt`: Update/Delete 時に採用し、削除対象に含める
+   * - `fail`: Create/Update 時に存在すればデプロイを失敗させる
+   */
+  unmanagedIndexPolicy?: UnmanagedIndexPolicy;
+  /**
+   * テーブルの課金モード。現在のモードと異なる場合、プランナーは GSI 操作と合わせて
+   * `UPDATE_BILLING_MODE` 操作を計画する。省略時は課金モードを変更しない。
+   * `PROVISIONED` へ切り替える場合は `tableProvisionedThroughput` と、
+   * すべての GSI の `provisionedThroughput` が必要。
+   */
+  billingMode?: TableBillingMode;
+  /**
+   * `billingMode: "PROVISIONED"` へ切り替える際のテーブル本体のキャパシティ。
+   */
+  tableProvisionedThroughput?: ProvisionedThroughput;
+  /**
+   * 同期パスで GSI / テーブルの状態をポーリングする際の待機設定。
+   */
+  waiter?: Partial<WaiterConfig>;
+  /**
+   * 1つの GSI 操作に許容する時間（秒）。超過した場合は Provider 全体のタイムアウトを待たずに、
+   * 対象の操作を示すエラーでデプロイを失敗させる。省略時は制限しない。
+   */
+  operationTimeoutSeconds?: number;
 }
 
 export interface GSIOperation {
@@ -45,8 +163,25 @@ export interface GSIOperation {
   indexName: string;
   desiredConfiguration?: GSIConfiguration;
   currentConfiguration?: GSIInfo;
+  /** Human readable explanation of why the planner emitted this operation. */
+  reason?: string;
+  /** True when the operation is part of a DELETE+CREATE replacement of an existing index. */
+  replacement?: boolean;
+  /** Set on UPDATE_BILLING_MODE operations, which target the table rather than one index. */
+  billingModeChange?: BillingModeChange;
+}
+
+export interface BillingModeChange {
+  from: TableBillingMode;
+  to: TableBillingMode;
+  tableProvisionedThroughput?: ProvisionedThroughput;
+  /** Capacity for every index that exists when the switch to PROVISIONED is applied, by physical name. */
+  indexProvisionedThroughput?: Record<string, ProvisionedThroughput>;
 }
 
+// indexName used for operations that apply to the whole table.
+export const TABLE_OPERATION_TARGET = "(table)";
+
 export interface GSIOperationPlan {
   operations: GSIOperation[];
 }
@@ -65,6 +200,13 @@ export interface ErrorHandlingConfig {
   retryableErrorCodes: string[];
 }
 
+// Polling used while waiting for an index or the table to settle (synchronous path).
+export interface WaiterConfig {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
 export const VALID_ATTRIBUTE_TYPES: AttributeTypeCode[] = ["S", "N", "B"];
 export const VALID_PROJECTION_TYPES: ProjectionType[] = [
   "ALL",
@@ -72,6 +214,30 @@ export const VALID_PROJECTION_TYPES: ProjectionType[] = [
   "INCLUDE",
 ];
 
+export const VALID_REPLACEMENT_POLICIES: ReplacementPolicy[] = [
+  "allow",
+  "deny",
+  "requireConfirmationToken",
+];
+
+export const VALID_REPLACEMENT_STRATEGIES: ReplacementStrategy[] = [
+  "recreate",
+  "blueGreen",
+];
+
+export const VALID_UNMANAGED_INDEX_POLICIES: UnmanagedIndexPolicy[] = [
+  "adopt",
+  "retain",
+  "fail",
+];
+
+export const VALID_BILLING_MODES: TableBillingMode[] = [
+  "PROVISIONED",
+  "PAY_PER_REQUEST",
+];
+
+export const DEFAULT_UNMANAGED_INDEX_POLICY: UnmanagedIndexPolicy = "retain";
+
 export const DEFAULT_ERROR_CONFIG: ErrorHandlingConfig = {
   maxRetries: 5,
   baseDelayMs: 1000,
@@ -83,17 +249,115 @@ export const DEFAULT_ERROR_CONFIG: ErrorHandlingConfig = {
   ],
 };
 
-export function validateGsiConfigurations(
-  configurations: GSIConfiguration[]
-): string[] {
-  const issues: string[] = [];
+// DynamoDB hard limits enforced before any UpdateTable request is sent.
+export const MAX_GSIS_PER_TABLE = 20;
+export const MAX_PROJECTED_NON_KEY_ATTRIBUTES = 100;
+export const INDEX_NAME_PATTERN = /^[a-zA-Z0-9_.-]{3,255}$/;
+
+// blueGreen replacements append "__v<version>" to the logical name; leave room for
+// versions up to three digits within DynamoDB's 255-character limit.
+export const MAX_BLUE_GREEN_INDEX_NAME_LENGTH = 255 - "__v999".length;
+
+export type GSIValidationSeverity = "error" | "warning";
+
+// Stable identifiers for validation issues. Messages may be reworded; codes may not.
+export type GSIValidationCode =
+  | "MISSING_INDEX_NAME"
+  | "INVALID_INDEX_NAME"
+  | "RESERVED_INDEX_NAME_SUFFIX"
+  | "DUPLICATE_INDEX_NAME"
+  | "TOO_MANY_INDEXES"
+  | "MISSING_PARTITION_KEY"
+  | "MISSING_ATTRIBUTE_NAME"
+  | "INVALID_ATTRIBUTE_TYPE"
+  | "CONFLICTING_ATTRIBUTE_TYPE"
+  | "INVALID_PROJECTION_TYPE"
+  | "MISSING_NON_KEY_ATTRIBUTES"
+  | "NON_KEY_ATTRIBUTES_WITHOUT_INCLUDE"
+  | "KEY_ATTRIBUTE_IN_NON_KEY_ATTRIBUTES"
+  | "TOO_MANY_PROJECTED_ATTRIBUTES"
+  | "INVALID_THROUGHPUT"
+  | "INVALID_AUTO_SCALING"
+  | "INVALID_BILLING_MODE"
+  | "INVALID_REPLACEMENT_POLICY"
+  | "INVALID_UNMANAGED_INDEX_POLICY"
+  | "UNUSED_CONFIRMATION_TOKEN"
+  | "INVALID_REPLACEMENT_STRATEGY";
+
+export interface GSIValidationIssue {
+  severity: GSIValidationSeverity;
+  code: GSIValidationCode;
+  message: string;
+}
+
+export interface GSIValidationContext {
+  /**
+   * Key attributes of the base table (and its local secondary indexes). GSI keys that
+   * reuse one of these names must use the same type.
+   */
+  tableAttributes?: AttributeDefinition[];
+  /** Desired table billing mode; PROVISIONED requires capacity for the table and every GSI. */
+  billingMode?: TableBillingMode;
+  tableProvisionedThroughput?: ProvisionedThroughput;
+  /** Billing mode the table is defined with; applies when billingMode is not set. */
+  tableBillingMode?: TableBillingMode;
+  unmanagedIndexPolicy?: UnmanagedIndexPolicy;
+}
+
+export const formatGsiValidationIssue = (issue: GSIValidationIssue): string =>
+  `[${issue.code}] ${issue.message}`;
+
+// Shared by the construct (synth-time Annotations) and the Lambda runtime so both
+// report exactly the same messages.
+export function collectGsiConfigurationIssues(
+  configurations: GSIConfiguration[],
+  context: GSIValidationContext = {}
+): GSIValidationIssue[] {
+  const issues: GSIValidationIssue[] = [];
+  const error = (code: GSIValidationCode, message: string) =>
+    issues.push({ severity: "error", code, message });
+  const warn = (code: GSIValidationCode, message: string) =>
+    issues.push({ severity: "warning", code, message });
   const seenNames = new Set<string>();
+  let projectedNonKeyAttributeCount = 0;
+
+  // UpdateTable takes a single AttributeDefinitions list for the whole table, so each
+  // attribute name may only ever be declared with one type.
+  const declaredTypes = new Map<string, { type: AttributeTypeCode; owner: string }>();
+  (context.tableAttributes ?? []).forEach((attribute) => {
+    declaredTypes.set(attribute.name, { type: attribute.type, owner: "the base table" });
+  });
+
+  if (configurations.length > MAX_GSIS_PER_TABLE) {
+    error(
+      "TOO_MANY_INDEXES",
+      `${configurations.length} GSIs are configured, but DynamoDB allows at most ${MAX_GSIS_PER_TABLE} per table.`
+    );
+  }
 
   configurations.forEach((config, index) => {
     if (!config.indexName?.trim()) {
-      issues.push(`GSI at position ${index} is missing indexName.`);
+      error("MISSING_INDEX_NAME", `GSI at position ${index} is missing indexName.`);
+    } else if (!INDEX_NAME_PATTERN.test(config.indexName)) {
+      error(
+        "INVALID_INDEX_NAME",
+        `GSI "${config.indexName}" must be 3-255 characters long and contain only a-z, A-Z, 0-9, "_", "-" and ".".`
+      );
+    } else if (/__v\d+$/.test(config.indexName)) {
+      error(
+        "RESERVED_INDEX_NAME_SUFFIX",
+        `GSI "${config.indexName}" must not end with "__v<number>"; the suffix is reserved for blue/green index versions.`
+      );
+    } else if (
+      config.replacementStrategy === "blueGreen" &&
+      config.indexName.length > MAX_BLUE_GREEN_INDEX_NAME_LENGTH
+    ) {
+      error(
+        "INVALID_INDEX_NAME",
+        `GSI "${config.indexName}" is ${config.indexName.length} characters long; replacementStrategy "blueGreen" appends "__v<version>" to it, so it must be at most ${MAX_BLUE_GREEN_INDEX_NAME_LENGTH} characters to stay within DynamoDB's 255-character limit.`
+      );
     } else if (seenNames.has(config.indexName)) {
-      issues.push(`GSI "${config.indexName}" is defined more than once.`);
+      error("DUPLICATE_INDEX_NAME", `GSI "${config.indexName}" is defined more than once.`);
     } else {
       seenNames.add(config.indexName);
     }
@@ -104,21 +368,44 @@ export function validateGsiConfigurations(
     ) => {
       if (!attribute) {
         if (role === "partitionKey") {
-          issues.push(`GSI "${config.indexName}" does not define partitionKey.`);
+          error(
+            "MISSING_PARTITION_KEY",
+            `GSI "${config.indexName}" does not define partitionKey.`
+          );
         }
         return;
       }
 
       if (!attribute.name?.trim()) {
-        issues.push(
+        error(
+          "MISSING_ATTRIBUTE_NAME",
           `GSI "${config.indexName}" ${role} is missing attribute name.`
         );
       }
 
       if (!VALID_ATTRIBUTE_TYPES.includes(attribute.type)) {
-        issues.push(
+        error(
+          "INVALID_ATTRIBUTE_TYPE",
           `GSI "${config.indexName}" ${role} has invalid type "${attribute.type}".`
         );
+        return;
+      }
+
+      if (!attribute.name?.trim()) {
+        return;
+      }
+
+      const declared = declaredTypes.get(attribute.name);
+      if (!declared) {
+        declaredTypes.set(attribute.name, {
+          type: attribute.type,
+          owner: `GSI "${config.indexName}"`,
+        });
+      } else if (declared.type !== attribute.type) {
+        error(
+          "CONFLICTING_ATTRIBUTE_TYPE",
+          `GSI "${config.indexName}" ${role} declares attribute "${attribute.name}" as ${attribute.type}, but ${declared.owner} declares it as ${declared.type}.`
+        );
       }
     };
 
@@ -129,15 +416,316 @@ export function validateGsiConfigurations(
       config.projectionType &&
       !VALID_PROJECTION_TYPES.includes(config.projectionType)
     ) {
-      issues.push(
+      error(
+        "INVALID_PROJECTION_TYPE",
         `GSI "${config.indexName}" has invalid projectionType "${config.projectionType}".`
       );
     }
+
+    const nonKeyAttributes = config.nonKeyAttributes ?? [];
+
+    if (config.projectionType === "INCLUDE" && nonKeyAttributes.length === 0) {
+      error(
+        "MISSING_NON_KEY_ATTRIBUTES",
+        `GSI "${config.indexName}" uses projectionType "INCLUDE" but does not define nonKeyAttributes.`
+      );
+    }
+
+    // DynamoDB rejects NonKeyAttributes for ALL and KEYS_ONLY projections.
+    if (config.projectionType !== "INCLUDE" && nonKeyAttributes.length > 0) {
+      error(
+        "NON_KEY_ATTRIBUTES_WITHOUT_INCLUDE",
+        `GSI "${config.indexName}" defines nonKeyAttributes, which are only allowed when projectionType is "INCLUDE".`
+      );
+    }
+
+    const keyAttributeNames = [config.partitionKey?.name, config.sortKey?.name];
+    nonKeyAttributes
+      .filter((name) => keyAttributeNames.includes(name))
+      .forEach((name) => {
+        error(
+          "KEY_ATTRIBUTE_IN_NON_KEY_ATTRIBUTES",
+          `GSI "${config.indexName}" lists key attribute "${name}" in nonKeyAttributes; key attributes are always projected.`
+        );
+      });
+
+    if (config.projectionType === "INCLUDE") {
+      projectedNonKeyAttributeCount += nonKeyAttributes.length;
+    }
+
+    const throughput = config.provisionedThroughput;
+    if (throughput) {
+      (["readCapacityUnits", "writeCapacityUnits"] as const).forEach((field) => {
+        const value = throughput[field];
+        if (!Number.isInteger(value) || value < 1) {
+          error(
+            "INVALID_THROUGHPUT",
+            `GSI "${config.indexName}" provisionedThroughput.${field} must be a positive integer (got ${value}).`
+          );
+        }
+      });
+    }
+
+    const warmThroughput = config.warmThroughput;
+    if (warmThroughput) {
+      const fields = (["readUnitsPerSecond", "writeUnitsPerSecond"] as const).filter(
+        (field) => warmThroughput[field] !== undefined
+      );
+      if (fields.length === 0) {
+        error(
+          "INVALID_THROUGHPUT",
+          `GSI "${config.indexName}" warmThroughput must define readUnitsPerSecond or writeUnitsPerSecond.`
+        );
+      }
+      fields.forEach((field) => {
+        const value = warmThroughput[field] as number;
+        if (!Number.isInteger(value) || value < 1) {
+          error(
+            "INVALID_THROUGHPUT",
+            `GSI "${config.indexName}" warmThroughput.${field} must be a positive integer (got ${value}).`
+          );
+        }
+      });
+    }
+
+    const onDemandThroughput = config.onDemandThroughput;
+    if (onDemandThroughput) {
+      const fields = (["maxReadRequestUnits", "maxWriteRequestUnits"] as const).filter(
+        (field) => onDemandThroughput[field] !== undefined
+      );
+      if (fields.length === 0) {
+        error(
+          "INVALID_THROUGHPUT",
+          `GSI "${config.indexName}" onDemandThroughput must define maxReadRequestUnits or maxWriteRequestUnits.`
+        );
+      }
+      fields.forEach((field) => {
+        const value = onDemandThroughput[field] as number;
+        if (!Number.isInteger(value) || (value < 1 && value !== -1)) {
+          error(
+            "INVALID_THROUGHPUT",
+            `GSI "${config.indexName}" onDemandThroughput.${field} must be a positive integer or -1 for no limit (got ${value}).`
+          );
+        }
+      });
+    }
+
+    const autoScaling = config.autoScaling;
+    if (autoScaling) {
+      if (!autoScaling.read && !autoScaling.write) {
+        error(
+          "INVALID_AUTO_SCALING",
+          `GSI "${config.indexName}" autoScaling must define read or write scaling.`
+        );
+      }
+
+      // Scaling starts from the index's provisioned capacity, so it must exist.
+      if (!config.provisionedThroughput) {
+        error(
+          "INVALID_AUTO_SCALING",
+          `GSI "${config.indexName}" defines autoScaling but no provisionedThroughput to start from.`
+        );
+      }
+
+      (["read", "write"] as const).forEach((dimension) => {
+        const capacity = autoScaling[dimension];
+        if (!capacity) {
+          return;
+        }
+
+        const { minCapacity, maxCapacity, targetUtilizationPercent } = capacity;
+        if (
+          !Number.isInteger(minCapacity) ||
+          !Number.isInteger(maxCapacity) ||
+          minCapacity < 1 ||
+          maxCapacity < minCapacity
+        ) {
+          error(
+            "INVALID_AUTO_SCALING",
+            `GSI "${config.indexName}" autoScaling.${dimension} needs integer capacities with 1 <= minCapacity <= maxCapacity (got ${minCapacity}..${maxCapacity}).`
+          );
+        }
+
+        if (
+          !(targetUtilizationPercent >= 20 && targetUtilizationPercent <= 90)
+        ) {
+          error(
+            "INVALID_AUTO_SCALING",
+            `GSI "${config.indexName}" autoScaling.${dimension}.targetUtilizationPercent must be between 20 and 90 (got ${targetUtilizationPercent}).`
+          );
+        }
+      });
+    }
+
+    if (
+      config.replacementPolicy &&
+      !VALID_REPLACEMENT_POLICIES.includes(config.replacementPolicy)
+    ) {
+      error(
+        "INVALID_REPLACEMENT_POLICY",
+        `GSI "${config.indexName}" has invalid replacementPolicy "${config.replacementPolicy}".`
+      );
+    }
+
+    if (
+      config.replacementConfirmationToken &&
+      config.replacementPolicy !== "requireConfirmationToken"
+    ) {
+      warn(
+        "UNUSED_CONFIRMATION_TOKEN",
+        `GSI "${config.indexName}" defines replacementConfirmationToken, which is ignored unless replacementPolicy is "requireConfirmationToken".`
+      );
+    }
+
+    if (
+      config.replacementStrategy &&
+      !VALID_REPLACEMENT_STRATEGIES.includes(config.replacementStrategy)
+    ) {
+      error(
+        "INVALID_REPLACEMENT_STRATEGY",
+        `GSI "${config.indexName}" has invalid replacementStrategy "${config.replacementStrategy}".`
+      );
+    }
   });
 
+  if (
+    context.unmanagedIndexPolicy !== undefined &&
+    !VALID_UNMANAGED_INDEX_POLICIES.includes(context.unmanagedIndexPolicy)
+  ) {
+    error(
+      "INVALID_UNMANAGED_INDEX_POLICY",
+      `Invalid unmanagedIndexPolicy "${context.unmanagedIndexPolicy}"; expected one of ${VALID_UNMANAGED_INDEX_POLICIES.join(", ")}.`
+    );
+  }
+
+  if (context.billingMode && !VALID_BILLING_MODES.includes(context.billingMode)) {
+    error("INVALID_BILLING_MODE", `Invalid billingMode "${context.billingMode}".`);
+  }
+
+  // Switching to PROVISIONED sends capacity for the table and every index in one UpdateTable call.
+  if (context.billingMode === "PROVISIONED") {
+    if (!context.tableProvisionedThroughput) {
+      error(
+        "INVALID_BILLING_MODE",
+        `billingMode "PROVISIONED" requires tableProvisionedThroughput.`
+      );
+    } else {
+      const { readCapacityUnits, writeCapacityUnits } = context.tableProvisionedThroughput;
+      if (
+        ![readCapacityUnits, writeCapacityUnits].every(
+          (value) => Number.isInteger(value) && value >= 1
+        )
+      ) {
+        error(
+          "INVALID_THROUGHPUT",
+          `tableProvisionedThroughput must use positive integers (got ${readCapacityUnits}/${writeCapacityUnits}).`
+        );
+      }
+    }
+
+    configurations
+      .filter((config) => !config.provisionedThroughput)
+      .forEach((config) => {
+        error(
+          "INVALID_BILLING_MODE",
+          `GSI "${config.indexName}" needs provisionedThroughput because billingMode is "PROVISIONED".`
+        );
+      });
+  }
+
+  // Application Auto Scaling only adjusts provisioned capacity; on-demand tables reject it.
+  if ((context.billingMode ?? context.tableBillingMode) === "PAY_PER_REQUEST") {
+    configurations
+      .filter((config) => config.autoScaling)
+      .forEach((config) => {
+        error(
+          "INVALID_AUTO_SCALING",
+          `GSI "${config.indexName}" defines autoScaling, but the table's billing mode is "PAY_PER_REQUEST"; auto scaling only applies to provisioned capacity.`
+        );
+      });
+  }
+
+  // The limit applies to the sum over all indexes; an attribute projected into two
+  // indexes counts twice.
+  if (projectedNonKeyAttributeCount > MAX_PROJECTED_NON_KEY_ATTRIBUTES) {
+    error(
+      "TOO_MANY_PROJECTED_ATTRIBUTES",
+      `${projectedNonKeyAttributeCount} nonKeyAttributes are projected across all GSIs, but DynamoDB allows at most ${MAX_PROJECTED_NON_KEY_ATTRIBUTES}.`
+    );
+  }
+
   return issues;
 }
 
+// Replays the plan against the indexes the table has today. An existing index keeps its
+// AttributeDefinitions until it is deleted (unmanaged indexes kept by the "retain" policy
+// never are), so every CREATE must agree with the existing indexes still present at that point.
+// The same replay counts the indexes on the table after each step: retained unmanaged
+// indexes and blue/green shadows built before the old index is deleted count toward the limit.
+export function collectPlannedOperationIssues(
+  current: GSIInfo[],
+  operations: GSIOperation[]
+): GSIValidationIssue[] {
+  const issues: GSIValidationIssue[] = [];
+  const present = new Map(current.map((gsi) => [gsi.indexName, gsi]));
+  const indexNames = new Set(present.keys());
+  let peakIndexCount = indexNames.size;
+
+  operations.forEach((operation) => {
+    if (operation.type === "DELETE") {
+      present.delete(operation.indexName);
+      indexNames.delete(operation.indexName);
+      return;
+    }
+    if (operation.type === "CREATE") {
+      indexNames.add(operation.indexName);
+      peakIndexCount = Math.max(peakIndexCount, indexNames.size);
+    }
+    if (operation.type !== "CREATE" || !operation.desiredConfiguration) {
+      return;
+    }
+
+    const config = operation.desiredConfiguration;
+    (["partitionKey", "sortKey"] as const).forEach((role) => {
+      const attribute = config[role];
+      if (!attribute) {
+        return;
+      }
+      present.forEach((existing) => {
+        const declaredType = existing.keySchema.find(
+          (key) => key.attributeName === attribute.name
+        )?.attributeType;
+        if (declaredType && declaredType !== attribute.type) {
+          issues.push({
+            severity: "error",
+            code: "CONFLICTING_ATTRIBUTE_TYPE",
+            message: `GSI "${config.indexName}" ${role} declares attribute "${attribute.name}" as ${attribute.type}, but existing GSI "${existing.indexName}" declares it as ${declaredType}.`,
+          });
+        }
+      });
+    });
+  });
+
+  if (peakIndexCount > MAX_GSIS_PER_TABLE) {
+    issues.push({
+      severity: "error",
+      code: "TOO_MANY_INDEXES",
+      message: `The plan would leave ${peakIndexCount} GSIs on the table at once (counting unmanaged indexes that are kept and blue/green replacements built before the old index is deleted), but DynamoDB allows at most ${MAX_GSIS_PER_TABLE} per table.`,
+    });
+  }
+
+  return issues;
+}
+
+export function validateGsiConfigurations(
+  configurations: GSIConfiguration[],
+  context: GSIValidationContext = {}
+): string[] {
+  return collectGsiConfigurationIssues(configurations, context)
+    .filter((issue) => issue.severity === "error")
+    .map(formatGsiValidationIssue);
+}
+
 export function mergeErrorHandlingConfig(
   override?: Partial<ErrorHandlingConfig>
 ): ErrorHandlingConfig {
@@ -172,6 +760,21 @@ export interface GSIOperationState {
   currentIndex: number;
   /** 操作開始時刻（ISO 8601形式） */
   startTime: string;
+  /** 計画を作成（または再開）したリクエストの ID */
+  requestId: string;
+  /** 計画の元になったリクエストの種類 */
+  requestType: "Create" | "Update" | "Delete";
+  /** 計画の元になった構成のハッシュ（失敗したデプロイを再開できるかの判定に使用） */
+  configurationHash: string;
+  /** 計画時に操作対象から除外した非管理 GSI の名前 */
+  unmanagedIndexNames: string[];
+  /** 現在の操作を開始した時刻（ISO 8601形式、未開始の場合は undefined） */
+  currentOperationStartedAt?: string;
+  /**
+   * このリソースが blue/green 置換で作成し、現在も存在するバージョン付き GSI の物理名
+   * （GSI1__v2 など）。記録がない古い状態では undefined
+   */
+  ownedVersionedIndexNames?: string[];
 }
 
 /**
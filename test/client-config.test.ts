@@ -0,0 +1,58 @@
+import {
+  createDynamoDBClient,
+  readClientSettingsFromEnv,
+} from '../lambda/gsi-manager/src/client-config';
+
+describe('readClientSettingsFromEnv', () => {
+  test('returns no overrides when nothing is set', () => {
+    expect(readClientSettingsFromEnv({})).toEqual({});
+  });
+
+  test('reads endpoint, region, credentials and max attempts', () => {
+    expect(
+      readClientSettingsFromEnv({
+        GSI_MANAGER_DYNAMODB_ENDPOINT: 'http://localhost:8000',
+        GSI_MANAGER_DYNAMODB_REGION: 'local',
+        GSI_MANAGER_DYNAMODB_ACCESS_KEY_ID: 'key',
+        GSI_MANAGER_DYNAMODB_SECRET_ACCESS_KEY: 'secret',
+        GSI_MANAGER_DYNAMODB_MAX_ATTEMPTS: '5',
+      })
+    ).toEqual({
+      endpoint: 'http://localhost:8000',
+      region: 'local',
+      credentials: { accessKeyId: 'key', secretAccessKey: 'secret' },
+      maxAttempts: 5,
+    });
+  });
+
+  test('rejects incomplete credentials and invalid max attempts', () => {
+    expect(() => readClientSettingsFromEnv({ GSI_MANAGER_DYNAMODB_ACCESS_KEY_ID: 'key' })).toThrow(
+      /must be set together/
+    );
+    expect(() => readClientSettingsFromEnv({ GSI_MANAGER_DYNAMODB_MAX_ATTEMPTS: '0' })).toThrow(
+      /positive integer/
+    );
+  });
+});
+
+describe('createDynamoDBClient', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test('explicit settings override the environment', async () => {
+    process.env = {
+      ...originalEnv,
+      GSI_MANAGER_DYNAMODB_ENDPOINT: 'http://from-env:8000',
+      GSI_MANAGER_DYNAMODB_REGION: 'env-region',
+    };
+
+    const client = createDynamoDBClient({ endpoint: 'http://explicit:8000' });
+    const endpoint = await client.config.endpoint!();
+
+    expect(endpoint.hostname).toBe('explicit');
+    expect(await client.config.region()).toBe('env-region');
+  });
+});
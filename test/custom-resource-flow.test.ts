@@ -0,0 +1,517 @@
+import type { GSIConfiguration, UnmanagedIndexPolicy } from '../lib/types';
+import type { CloudFormationCustomResourceEvent } from '../lambda/gsi-manager/src/handler';
+import { toResourceKey } from '../lambda/gsi-manager/src/operation-state-store';
+import { createEvent, createFlow, gsi, TABLE_NAME } from './support/custom-resource-flow';
+import { InMemoryDynamoDBGSIService } from './support/in-memory-dynamodb-gsi-service';
+
+const createSimulator = (indexes: GSIConfiguration[] = []) => {
+  const simulator = new InMemoryDynamoDBGSIService();
+  simulator.createTable(TABLE_NAME, { keyAttributes: [{ name: 'PK', type: 'S' }], indexes });
+  return simulator;
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// Polls until `stop` holds and then abandons the request, like a deployment whose
+// waiter gave up or whose stack operation was cancelled.
+const interrupt = async (
+  flow: ReturnType<typeof createFlow>,
+  simulator: InMemoryDynamoDBGSIService,
+  event: CloudFormationCustomResourceEvent,
+  stop: () => boolean
+) => {
+  const started = await flow.onEvent(event);
+  for (let poll = 0; !stop(); poll += 1) {
+    if (poll >= 100) {
+      throw new Error('interrupt condition never became true');
+    }
+    simulator.advance();
+    await flow.isComplete({ ...event, PhysicalResourceId: started.PhysicalResourceId });
+  }
+};
+
+describe('custom resource flow against the in-memory control plane', () => {
+  test('Create builds indexes one at a time until all are ACTIVE', async () => {
+    const simulator = createSimulator();
+    const flow = createFlow(simulator);
+    const observed: string[] = [];
+
+    const result = await flow.run(createEvent('Create', { globalSecondaryIndexes: [gsi('GSI1'), gsi('GSI2')] }), {
+      beforePoll: () => observed.push(JSON.stringify(simulator.indexStatuses(TABLE_NAME))),
+    });
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1: 'ACTIVE', GSI2: 'ACTIVE' });
+    expect(simulator.calls).toEqual(['createGSI GSI1', 'createGSI GSI2']);
+    // GSI2 is never started while GSI1 is still backfilling
+    expect(observed).toContain(JSON.stringify({ GSI1: 'CREATING' }));
+    expect(result.data).toMatchObject({
+      operationsExecuted: 2,
+      managedIndexes: 'GSI1,GSI2',
+      'physicalIndexName.GSI1': 'GSI1',
+      'physicalIndexName.GSI2': 'GSI2',
+    });
+  });
+
+  test('Update replaces an index whose key schema changed', async () => {
+    const simulator = createSimulator([gsi('GSI1')]);
+    const flow = createFlow(simulator);
+    const previous = { globalSecondaryIndexes: [gsi('GSI1')] };
+    const desired = {
+      globalSecondaryIndexes: [gsi('GSI1', { sortKey: { name: 'GSI1SK', type: 'S' as const } })],
+    };
+
+    const result = await flow.run(createEvent('Update', desired, previous));
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.calls).toEqual(['deleteGSI GSI1', 'createGSI GSI1']);
+    const [index] = await simulator.getCurrentGSIs(TABLE_NAME);
+    expect(index.keySchema.map((key) => key.attributeName)).toEqual(['GSI1PK', 'GSI1SK']);
+  });
+
+  test('Delete removes every managed index', async () => {
+    const simulator = createSimulator([gsi('GSI1'), gsi('GSI2')]);
+    const flow = createFlow(simulator);
+
+    const result = await flow.run(createEvent('Delete', { globalSecondaryIndexes: [gsi('GSI1'), gsi('GSI2')] }));
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({});
+    expect(simulator.calls).toEqual(['deleteGSI GSI1', 'deleteGSI GSI2']);
+  });
+
+  test('waits for the table to leave UPDATING before starting', async () => {
+    const simulator = createSimulator();
+    simulator.setTableUpdating(TABLE_NAME, 2);
+    const flow = createFlow(simulator);
+
+    const result = await flow.run(createEvent('Create', { globalSecondaryIndexes: [gsi('GSI1')] }));
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1: 'ACTIVE' });
+  });
+
+  test.each(['ThrottlingException', 'ResourceInUseException'] as const)(
+    'recovers from %s through the configured retries',
+    async (errorName) => {
+      const simulator = createSimulator();
+      simulator.failNext('createGSI', errorName, 2);
+      const flow = createFlow(simulator);
+
+      const result = await flow.run(createEvent('Create', { globalSecondaryIndexes: [gsi('GSI1')] }));
+
+      expect(result.isComplete).toBe(true);
+      expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1: 'ACTIVE' });
+    }
+  );
+
+  test('fails the deployment when DynamoDB rejects the operation', async () => {
+    const simulator = createSimulator();
+    simulator.failNext('createGSI', 'LimitExceededException');
+    const flow = createFlow(simulator);
+
+    await expect(
+      flow.run(createEvent('Create', { globalSecondaryIndexes: [gsi('GSI1')] }))
+    ).rejects.toMatchObject({ name: 'LimitExceededException' });
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({});
+  });
+
+  test('rejects a plan that would exceed 20 GSIs once retained unmanaged indexes are counted', async () => {
+    const managed = Array.from({ length: 19 }, (_, i) => gsi(`GSI${String(i + 1).padStart(2, '0')}`));
+    const simulator = createSimulator([...managed.slice(0, 18), gsi('Legacy1'), gsi('Legacy2')]);
+    const flow = createFlow(simulator);
+    const previous = { globalSecondaryIndexes: managed.slice(0, 18) };
+
+    await expect(
+      flow.run(createEvent('Update', { globalSecondaryIndexes: managed }, previous))
+    ).rejects.toThrow(/TOO_MANY_INDEXES.*21 GSIs on the table at once/);
+    expect(simulator.calls).toEqual([]);
+  });
+
+  test('rejects a blue/green replacement whose new index would exceed 20 GSIs', async () => {
+    const indexes = Array.from({ length: 20 }, (_, i) => gsi(`GSI${String(i + 1).padStart(2, '0')}`));
+    const simulator = createSimulator(indexes);
+    const flow = createFlow(simulator);
+    const desired = {
+      globalSecondaryIndexes: [
+        gsi('GSI01', { projectionType: 'KEYS_ONLY', replacementStrategy: 'blueGreen' }),
+        ...indexes.slice(1),
+      ],
+    };
+
+    await expect(
+      flow.run(createEvent('Update', desired, { globalSecondaryIndexes: indexes }))
+    ).rejects.toThrow(/TOO_MANY_INDEXES.*21 GSIs on the table at once/);
+    expect(simulator.calls).toEqual([]);
+  });
+
+  test('fails the operation that exceeds operationTimeoutSeconds', async () => {
+    const simulator = createSimulator();
+    const flow = createFlow(simulator);
+    const startedAt = Date.now();
+
+    const result = flow.run(
+      createEvent('Create', { globalSecondaryIndexes: [gsi('GSI1')], operationTimeoutSeconds: 60 }),
+      {
+        beforePoll: (poll) => {
+          if (poll === 2) {
+            jest.spyOn(Date, 'now').mockReturnValue(startedAt + 61_000);
+          }
+        },
+      }
+    );
+
+    await expect(result).rejects.toThrow(
+      `CREATE GSI1 on table "${TABLE_NAME}" did not complete within 60s`
+    );
+    expect(simulator.calls).toEqual(['createGSI GSI1']);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1: 'CREATING' });
+  });
+
+  test('a rollback after the operation budget runs out undoes the backfilling index', async () => {
+    const simulator = createSimulator([gsi('GSI1')]);
+    const flow = createFlow(simulator);
+    const previous = { globalSecondaryIndexes: [gsi('GSI1')], operationTimeoutSeconds: 60 };
+    const desired = { globalSecondaryIndexes: [gsi('GSI1'), gsi('GSI2')], operationTimeoutSeconds: 60 };
+    const startedAt = Date.now();
+
+    await expect(
+      flow.run(createEvent('Update', desired, previous), {
+        beforePoll: (poll) => {
+          if (poll === 2) {
+            jest.spyOn(Date, 'now').mockReturnValue(startedAt + 61_000);
+          }
+        },
+      })
+    ).rejects.toThrow('--no-rollback');
+    jest.mocked(Date.now).mockRestore();
+    // The simulator admits one index operation at a time, so let GSI2 settle first.
+    simulator.advance(10);
+
+    // Without --no-rollback, CloudFormation sends an Update back to the previous properties.
+    const rollback = await flow.run(createEvent('Update', previous, desired));
+
+    expect(rollback.isComplete).toBe(true);
+    expect(simulator.calls).toEqual(['createGSI GSI2', 'deleteGSI GSI2']);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1: 'ACTIVE' });
+
+    // Nothing is left to resume: deploying the change again starts the backfill over.
+    await flow.run(createEvent('Update', desired, previous));
+    expect(simulator.calls).toEqual(['createGSI GSI2', 'deleteGSI GSI2', 'createGSI GSI2']);
+  });
+
+  test('dry run plans without mutating the table and reports the plan in Data', async () => {
+    const simulator = createSimulator([gsi('GSI1')]);
+    const flow = createFlow(simulator);
+    const desired = {
+      dryRun: true,
+      globalSecondaryIndexes: [gsi('GSI1', { sortKey: { name: 'GSI1SK', type: 'S' as const } }), gsi('GSI2')],
+    };
+
+    const result = await flow.run(createEvent('Update', desired, { globalSecondaryIndexes: [gsi('GSI1')] }));
+
+    expect(result).toMatchObject({ isComplete: true, polls: 0 });
+    expect(simulator.calls).toEqual([]);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1: 'ACTIVE' });
+    expect(result.data).toMatchObject({
+      dryRun: true,
+      operationsExecuted: 0,
+      operationsPlanned: 3,
+      managedIndexes: 'GSI1,GSI2',
+      'physicalIndexName.GSI1': 'GSI1',
+    });
+    expect(result.data).not.toHaveProperty('plannedOperationsTruncated');
+    const planned = JSON.parse(result.data?.plannedOperations as string);
+    expect(planned.map((operation: { type: string; indexName: string }) => `${operation.type} ${operation.indexName}`)).toEqual([
+      'DELETE GSI1',
+      'CREATE GSI1',
+      'CREATE GSI2',
+    ]);
+    expect(planned[1].replacementConfirmationToken).toEqual(expect.any(String));
+  });
+
+  test('dry run keeps Data within the custom resource response limit', async () => {
+    const simulator = createSimulator();
+    const flow = createFlow(simulator);
+    const indexes = Array.from({ length: 20 }, (_, i) =>
+      gsi(`ByCustomerAndDate${String(i).padStart(2, '0')}`)
+    );
+
+    const result = await flow.run(createEvent('Create', { dryRun: true, globalSecondaryIndexes: indexes }));
+
+    expect(simulator.calls).toEqual([]);
+    expect(Buffer.byteLength(JSON.stringify(result.data))).toBeLessThanOrEqual(3072);
+    expect(result.data).toMatchObject({ operationsPlanned: 20, plannedOperationsTruncated: true });
+    expect(result.data).toHaveProperty(['physicalIndexName.ByCustomerAndDate19'], 'ByCustomerAndDate19');
+    const shown = JSON.parse(result.data?.plannedOperations as string);
+    expect(shown.length).toBeGreaterThan(0);
+    expect(shown.length).toBeLessThan(20);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Full plan:'));
+  });
+});
+
+describe('unmanaged index policy', () => {
+  const previous = { globalSecondaryIndexes: [gsi('GSI1')] };
+  const desired = { globalSecondaryIndexes: [gsi('GSI1'), gsi('GSI2')] };
+
+  test('retain leaves an index the resource never managed in place by default', async () => {
+    const simulator = createSimulator([gsi('GSI1'), gsi('Legacy')]);
+    const flow = createFlow(simulator);
+
+    const result = await flow.run(createEvent('Update', desired, previous));
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.calls).toEqual(['createGSI GSI2']);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1: 'ACTIVE', Legacy: 'ACTIVE', GSI2: 'ACTIVE' });
+    expect(result.data).toMatchObject({ managedIndexes: 'GSI1,GSI2' });
+  });
+
+  test('adopt deletes an index that is not in the configuration', async () => {
+    const simulator = createSimulator([gsi('GSI1'), gsi('Legacy')]);
+    const flow = createFlow(simulator);
+
+    const result = await flow.run(
+      createEvent('Update', { ...desired, unmanagedIndexPolicy: 'adopt' }, previous)
+    );
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.calls).toEqual(['deleteGSI Legacy', 'createGSI GSI2']);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1: 'ACTIVE', GSI2: 'ACTIVE' });
+  });
+
+  test('fail rejects the deployment before touching the table', async () => {
+    const simulator = createSimulator([gsi('GSI1'), gsi('Legacy')]);
+    const flow = createFlow(simulator);
+
+    await expect(
+      flow.run(createEvent('Update', { ...desired, unmanagedIndexPolicy: 'fail' }, previous))
+    ).rejects.toThrow('Table has 1 GSI(s) not managed by this resource: Legacy.');
+    expect(simulator.calls).toEqual([]);
+  });
+
+  test('retain keeps a hand-built index whose name only looks like a blue/green version', async () => {
+    const simulator = createSimulator([gsi('GSI1__v2')]);
+    const flow = createFlow(simulator);
+    await flow.run(createEvent('Create', previous));
+
+    const result = await flow.run(createEvent('Update', desired, previous));
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.calls).toEqual(['createGSI GSI1', 'createGSI GSI2']);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({
+      GSI1__v2: 'ACTIVE',
+      GSI1: 'ACTIVE',
+      GSI2: 'ACTIVE',
+    });
+    expect(result.data).toMatchObject({
+      unmanagedIndexes: 'GSI1__v2',
+      'physicalIndexName.GSI1': 'GSI1',
+    });
+  });
+
+  test('a blue/green replacement skips version names taken by unmanaged indexes', async () => {
+    const simulator = createSimulator([gsi('GSI1__v2')]);
+    const flow = createFlow(simulator);
+    await flow.run(createEvent('Create', previous));
+    const replaced = {
+      globalSecondaryIndexes: [gsi('GSI1', { projectionType: 'KEYS_ONLY', replacementStrategy: 'blueGreen' })],
+    };
+
+    const update = createEvent('Update', replaced, previous);
+    await flow.run(update);
+    const redeploy = await flow.run(createEvent('Update', replaced, replaced));
+
+    expect(simulator.calls).toEqual(['createGSI GSI1', 'createGSI GSI1__v3', 'deleteGSI GSI1']);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1__v2: 'ACTIVE', GSI1__v3: 'ACTIVE' });
+    expect(await flow.store.load(toResourceKey(update))).toMatchObject({
+      ownedVersionedIndexNames: ['GSI1__v3'],
+    });
+    expect(redeploy.data).toMatchObject({
+      unmanagedIndexes: 'GSI1__v2',
+      'physicalIndexName.GSI1': 'GSI1__v3',
+    });
+  });
+
+  test('rejects a misspelled policy instead of falling back to retain', async () => {
+    const simulator = createSimulator([gsi('GSI1'), gsi('Legacy')]);
+    const flow = createFlow(simulator);
+
+    await expect(
+      flow.run(
+        createEvent('Update', { ...desired, unmanagedIndexPolicy: 'fial' as UnmanagedIndexPolicy }, previous)
+      )
+    ).rejects.toThrow('[INVALID_UNMANAGED_INDEX_POLICY] Invalid unmanagedIndexPolicy "fial"');
+    expect(simulator.calls).toEqual([]);
+  });
+});
+
+describe('operation state persistence and resume', () => {
+  const desired = { globalSecondaryIndexes: [gsi('GSI1'), gsi('GSI2')] };
+
+  test('a redeploy with the same configuration resumes without repeating finished operations', async () => {
+    const simulator = createSimulator();
+    const flow = createFlow(simulator);
+    const first = createEvent('Create', desired);
+    await interrupt(flow, simulator, first, () => simulator.calls.includes('createGSI GSI2'));
+    const interrupted = await flow.store.load(toResourceKey(first));
+    expect(interrupted).toMatchObject({ completedIndices: [0], currentIndex: 1, requestId: first.RequestId });
+
+    const retry = createEvent('Create', desired);
+    const result = await flow.run(retry);
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.calls).toEqual(['createGSI GSI1', 'createGSI GSI2']);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1: 'ACTIVE', GSI2: 'ACTIVE' });
+    const resumed = await flow.store.load(toResourceKey(retry));
+    expect(resumed).toMatchObject({
+      requestId: retry.RequestId,
+      configurationHash: interrupted?.configurationHash,
+      completedIndices: [0, 1],
+    });
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Resuming'));
+  });
+
+  test('skips an operation that reached its target state while the deployment was interrupted', async () => {
+    const simulator = createSimulator();
+    const flow = createFlow(simulator);
+    const first = createEvent('Create', desired);
+    await interrupt(flow, simulator, first, () => simulator.calls.includes('createGSI GSI2'));
+    // The request died after CreateGSI was accepted but before the start was recorded.
+    const key = toResourceKey(first);
+    const state = await flow.store.load(key);
+    await flow.store.save(key, { ...state!, currentOperationStartedAt: undefined });
+    simulator.advance(10);
+
+    const result = await flow.run(createEvent('Create', desired));
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.calls).toEqual(['createGSI GSI1', 'createGSI GSI2']);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('already in the target state'));
+  });
+
+  test('skips a DELETE that finished while the deployment was interrupted', async () => {
+    const simulator = createSimulator([gsi('GSI1'), gsi('GSI2'), gsi('GSI3')]);
+    const flow = createFlow(simulator);
+    const previous = { globalSecondaryIndexes: [gsi('GSI1'), gsi('GSI2'), gsi('GSI3')] };
+    const next = { globalSecondaryIndexes: [gsi('GSI1')] };
+    const first = createEvent('Update', next, previous);
+    await interrupt(flow, simulator, first, () => simulator.calls.includes('deleteGSI GSI3'));
+    const key = toResourceKey(first);
+    const state = await flow.store.load(key);
+    await flow.store.save(key, { ...state!, currentOperationStartedAt: undefined });
+    simulator.advance(10);
+
+    const result = await flow.run(createEvent('Update', next, previous));
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.calls).toEqual(['deleteGSI GSI2', 'deleteGSI GSI3']);
+    expect(simulator.indexStatuses(TABLE_NAME)).toEqual({ GSI1: 'ACTIVE' });
+  });
+
+  test('a redeploy with a changed configuration discards the saved plan', async () => {
+    const simulator = createSimulator();
+    const flow = createFlow(simulator);
+    const first = createEvent('Create', desired);
+    await interrupt(flow, simulator, first, () => simulator.calls.includes('createGSI GSI2'));
+    const interrupted = await flow.store.load(toResourceKey(first));
+    simulator.advance(10);
+
+    const changed = { globalSecondaryIndexes: [gsi('GSI1'), gsi('GSI3')] };
+    const retry = createEvent('Update', changed, desired);
+    const result = await flow.run(retry);
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.calls).toEqual([
+      'createGSI GSI1',
+      'createGSI GSI2',
+      'deleteGSI GSI2',
+      'createGSI GSI3',
+    ]);
+    const replanned = await flow.store.load(toResourceKey(retry));
+    expect(replanned?.configurationHash).not.toBe(interrupted?.configurationHash);
+    expect(replanned?.allOperations.map((operation) => `${operation.type} ${operation.indexName}`)).toEqual([
+      'DELETE GSI2',
+      'CREATE GSI3',
+    ]);
+  });
+
+  test('a changed waiter or per-operation timeout still resumes', async () => {
+    const simulator = createSimulator();
+    const flow = createFlow(simulator);
+    const first = createEvent('Create', desired);
+    await interrupt(flow, simulator, first, () => simulator.calls.includes('createGSI GSI2'));
+
+    const result = await flow.run(createEvent('Create', { ...desired, operationTimeoutSeconds: 7200 }));
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.calls).toEqual(['createGSI GSI1', 'createGSI GSI2']);
+  });
+
+  test('re-plans from the current table when the saved plan is older than a day', async () => {
+    const simulator = createSimulator();
+    const flow = createFlow(simulator);
+    const first = createEvent('Create', desired);
+    await interrupt(flow, simulator, first, () => simulator.calls.includes('createGSI GSI2'));
+    simulator.advance(10);
+    const dayLater = Date.now() + 25 * 60 * 60 * 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(dayLater);
+
+    const result = await flow.run(createEvent('Create', desired));
+
+    expect(result.isComplete).toBe(true);
+    expect(simulator.calls).toEqual(['createGSI GSI1', 'createGSI GSI2']);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Not resuming the saved Create plan'));
+    // The fresh plan finds both indexes ACTIVE and finishes without polling.
+    expect(result.polls).toBe(0);
+  });
+
+  test('does not resume a plan saved by a different kind of request', async () => {
+    const simulator = createSimulator([gsi('GSI1')]);
+    const flow = createFlow(simulator);
+    const first = createEvent('Update', desired, { globalSecondaryIndexes: [gsi('GSI1')] });
+    await interrupt(flow, simulator, first, () => simulator.calls.includes('createGSI GSI2'));
+    simulator.advance(10);
+
+    // e.g. the custom resource was replaced and its Create reuses the same properties
+    const result = await flow.run(createEvent('Create', desired));
+
+    expect(result.isComplete).toBe(true);
+    expect(result.polls).toBe(0);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Not resuming the saved Update plan'));
+  });
+
+  test('does not skip a CREATE when a same-named index has a different definition', async () => {
+    const simulator = createSimulator();
+    const flow = createFlow(simulator);
+    const first = createEvent('Create', desired);
+    await interrupt(flow, simulator, first, () => simulator.calls.includes('createGSI GSI1'));
+    simulator.advance(10);
+    // Someone builds GSI2 by hand while the deployment is stopped.
+    await simulator.createGSI(TABLE_NAME, gsi('GSI2', { projectionType: 'KEYS_ONLY' }));
+    simulator.advance(10);
+
+    await expect(flow.run(createEvent('Create', desired))).rejects.toThrow(
+      'CREATE GSI2 on table "SimulatedTable" cannot be skipped: an index with that name already exists but does not match the planned definition (projection changed)'
+    );
+    expect(console.log).not.toHaveBeenCalledWith(expect.stringContaining('already in the target state'));
+  });
+
+  test('isComplete rejects a poll from a request that no longer owns the saved state', async () => {
+    const simulator = createSimulator();
+    const flow = createFlow(simulator);
+    const stale = createEvent('Create', desired);
+    const started = await flow.onEvent(stale);
+    await flow.onEvent(createEvent('Create', desired));
+
+    await expect(
+      flow.isComplete({ ...stale, PhysicalResourceId: started.PhysicalResourceId })
+    ).rejects.toThrow(`No operation state found for ${toResourceKey(stale)} (request ${stale.RequestId})`);
+  });
+});
@@ -0,0 +1,146 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import { createGenerator } from 'ts-json-schema-generator';
+import { GSI_CONFIG_SCHEMA_PATH, loadGsiConfigFile } from '../lib/gsi-config-file';
+import { GsiManager } from '../lib/gsi-manager-construct';
+
+let workDir: string;
+
+const writeConfig = (name: string, content: string): string => {
+  const file = path.join(workDir, name);
+  fs.writeFileSync(file, content);
+  return file;
+};
+
+beforeAll(() => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gsi-config-'));
+});
+
+afterAll(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('loadGsiConfigFile', () => {
+  test('reads YAML definitions', () => {
+    const file = writeConfig(
+      'valid.yaml',
+      [
+        '# yaml-language-server: $schema=../schema/gsi-config.schema.json',
+        'globalSecondaryIndexes:',
+        '  - indexName: GSI1',
+        '    partitionKey: { name: GSI1PK, type: S }',
+        '    projectionType: INCLUDE',
+        '    nonKeyAttributes: [Status]',
+        'errorHandling:',
+        '  maxRetries: 5',
+      ].join('\n')
+    );
+
+    expect(loadGsiConfigFile(file)).toEqual({
+      globalSecondaryIndexes: [
+        {
+          indexName: 'GSI1',
+          partitionKey: { name: 'GSI1PK', type: 'S' },
+          projectionType: 'INCLUDE',
+          nonKeyAttributes: ['Status'],
+        },
+      ],
+      errorHandling: { maxRetries: 5 },
+    });
+  });
+
+  test('reads JSON definitions and drops $schema', () => {
+    const file = writeConfig(
+      'valid.json',
+      JSON.stringify({
+        $schema: './gsi-config.schema.json',
+        globalSecondaryIndexes: [{ indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'N' } }],
+      })
+    );
+
+    expect(loadGsiConfigFile(file)).toEqual({
+      globalSecondaryIndexes: [{ indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'N' } }],
+    });
+  });
+
+  test('reports schema violations with file, line and column', () => {
+    const file = writeConfig(
+      'invalid.yaml',
+      [
+        'globalSecondaryIndexes:',
+        '  - indexName: GSI1',
+        '    partitionKey:',
+        '      name: GSI1PK',
+        '      type: X',
+        '    projecton: ALL',
+        '  - partitionKey: { name: GSI2PK, type: S }',
+      ].join('\n')
+    );
+
+    expect(() => loadGsiConfigFile(file)).toThrow(
+      [
+        'Invalid GSI config file:',
+        `${file}:5:13 - globalSecondaryIndexes[0].partitionKey.type: must be one of "S", "N", "B"`,
+        `${file}:6:5 - globalSecondaryIndexes[0]: unknown property "projecton"`,
+        `${file}:7:5 - globalSecondaryIndexes[1]: missing required property "indexName"`,
+      ].join('\n- ')
+    );
+  });
+
+  test('reports syntax errors with their position', () => {
+    const file = writeConfig('broken.json', '{\n  "globalSecondaryIndexes": [\n}');
+
+    expect(() => loadGsiConfigFile(file)).toThrow(`${file}:3:1 - `);
+  });
+
+  test('rejects unsupported file types', () => {
+    expect(() => loadGsiConfigFile(writeConfig('config.toml', ''))).toThrow(/Unsupported GSI config file/);
+  });
+});
+
+describe('GsiManager.fromConfigFile', () => {
+  test('creates the custom resource from the file', () => {
+    const file = writeConfig(
+      'manager.yaml',
+      [
+        'globalSecondaryIndexes:',
+        '  - indexName: GSI1',
+        '    partitionKey: { name: GSI1PK, type: S }',
+        'errorHandling:',
+        '  maxRetries: 5',
+      ].join('\n')
+    );
+    const app = new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } });
+    const stack = new cdk.Stack(app, 'TestStack');
+    const table = new dynamodb.Table(stack, 'Table', {
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+    });
+
+    GsiManager.fromConfigFile(stack, 'GsiManager', {
+      table,
+      configFile: file,
+      errorHandling: { baseDelayMs: 10 },
+    });
+
+    Template.fromStack(stack).hasResourceProperties('AWS::CloudFormation::CustomResource', {
+      globalSecondaryIndexes: [Match.objectLike({ indexName: 'GSI1' })],
+      errorHandling: { maxRetries: 5, baseDelayMs: 10 },
+    });
+  });
+});
+
+describe('published JSON Schema', () => {
+  test('is up to date with GsiConfigFile (run `npm run schema` after changing the types)', () => {
+    const generated = createGenerator({
+      path: path.join(__dirname, '../lib/gsi-config-file.ts'),
+      tsconfig: path.join(__dirname, '../tsconfig.json'),
+      type: 'GsiConfigFile',
+    }).createSchema('GsiConfigFile');
+
+    expect(JSON.parse(fs.readFileSync(GSI_CONFIG_SCHEMA_PATH, 'utf8'))).toEqual(generated);
+  });
+});
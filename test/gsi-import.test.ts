@@ -0,0 +1,143 @@
+import type { TableDescription } from '@aws-sdk/client-dynamodb';
+import {
+  importFromDescribeTable,
+  renderConfigurationsAsJson,
+  renderConfigurationsAsTypeScript,
+} from '../lib/gsi-import';
+import { planFromDescribeTable } from '../lib/gsi-plan';
+
+const provisionedTable = (): TableDescription => ({
+  TableName: 'order-events',
+  AttributeDefinitions: [
+    { AttributeName: 'PK', AttributeType: 'S' },
+    { AttributeName: 'CustomerId', AttributeType: 'S' },
+    { AttributeName: 'CreatedAt', AttributeType: 'N' },
+    { AttributeName: 'Status', AttributeType: 'S' },
+  ],
+  KeySchema: [{ AttributeName: 'PK', KeyType: 'HASH' }],
+  GlobalSecondaryIndexes: [
+    {
+      IndexName: 'ByCustomer__v2',
+      KeySchema: [
+        { AttributeName: 'CustomerId', KeyType: 'HASH' },
+        { AttributeName: 'CreatedAt', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'INCLUDE', NonKeyAttributes: ['Total'] },
+      IndexStatus: 'ACTIVE',
+      ProvisionedThroughput: { ReadCapacityUnits: 5, WriteCapacityUnits: 2 },
+    },
+    {
+      IndexName: 'ByStatus',
+      KeySchema: [{ AttributeName: 'Status', KeyType: 'HASH' }],
+      Projection: { ProjectionType: 'KEYS_ONLY' },
+      IndexStatus: 'CREATING',
+      ProvisionedThroughput: { ReadCapacityUnits: 1, WriteCapacityUnits: 1 },
+    },
+  ],
+});
+
+describe('importFromDescribeTable', () => {
+  test('maps keys, projections and provisioned throughput', () => {
+    const result = importFromDescribeTable(provisionedTable());
+
+    expect(result.configurations).toEqual([
+      {
+        indexName: 'ByCustomer',
+        partitionKey: { name: 'CustomerId', type: 'S' },
+        sortKey: { name: 'CreatedAt', type: 'N' },
+        projectionType: 'INCLUDE',
+        nonKeyAttributes: ['Total'],
+        provisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 2 },
+      },
+      {
+        indexName: 'ByStatus',
+        partitionKey: { name: 'Status', type: 'S' },
+        projectionType: 'KEYS_ONLY',
+        provisionedThroughput: { readCapacityUnits: 1, writeCapacityUnits: 1 },
+      },
+    ]);
+    expect(result.warnings).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('"ByCustomer__v2" is a blue/green shadow index'),
+        expect.stringContaining('"ByStatus" is CREATING'),
+        expect.stringContaining('Auto scaling policies are not part of DescribeTable'),
+      ])
+    );
+  });
+
+  test('produces a configuration that plans no changes against the same table', () => {
+    const table = provisionedTable();
+    const { configurations } = importFromDescribeTable(table);
+
+    const plan = planFromDescribeTable({
+      table,
+      config: { globalSecondaryIndexes: JSON.parse(JSON.stringify(configurations)) },
+    });
+
+    expect(plan.operations).toEqual([]);
+  });
+
+  test('keeps only limited on-demand throughput and skips unsupported key schemas', () => {
+    const result = importFromDescribeTable({
+      TableName: 'Events',
+      BillingModeSummary: { BillingMode: 'PAY_PER_REQUEST' },
+      AttributeDefinitions: [
+        { AttributeName: 'A', AttributeType: 'S' },
+        { AttributeName: 'B', AttributeType: 'S' },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: 'Capped',
+          KeySchema: [{ AttributeName: 'A', KeyType: 'HASH' }],
+          Projection: { ProjectionType: 'ALL' },
+          ProvisionedThroughput: { ReadCapacityUnits: 0, WriteCapacityUnits: 0 },
+          OnDemandThroughput: { MaxReadRequestUnits: 100, MaxWriteRequestUnits: -1 },
+        },
+        {
+          IndexName: 'Unlimited',
+          KeySchema: [{ AttributeName: 'B', KeyType: 'HASH' }],
+          Projection: { ProjectionType: 'ALL' },
+          OnDemandThroughput: { MaxReadRequestUnits: -1, MaxWriteRequestUnits: -1 },
+        },
+        {
+          IndexName: 'MultiKey',
+          KeySchema: [
+            { AttributeName: 'A', KeyType: 'HASH' },
+            { AttributeName: 'B', KeyType: 'HASH' },
+          ],
+          Projection: { ProjectionType: 'ALL' },
+        },
+      ],
+    });
+
+    expect(result.configurations.map((config) => config.indexName)).toEqual(['Capped', 'Unlimited']);
+    expect(result.configurations[0].onDemandThroughput).toEqual({
+      maxReadRequestUnits: 100,
+      maxWriteRequestUnits: -1,
+    });
+    expect(result.configurations[0].provisionedThroughput).toBeUndefined();
+    expect(result.configurations[1].onDemandThroughput).toBeUndefined();
+    expect(result.warnings).toEqual(
+      expect.arrayContaining([expect.stringContaining('"MultiKey" was skipped')])
+    );
+  });
+});
+
+describe('rendering', () => {
+  test('TypeScript output exports a typed array and carries the warnings', () => {
+    const output = renderConfigurationsAsTypeScript(importFromDescribeTable(provisionedTable()), {
+      typesModule: 'cdk-ddb-multi-gsi/lib/types',
+    });
+
+    expect(output).toContain('import type { GSIConfiguration } from "cdk-ddb-multi-gsi/lib/types";');
+    expect(output).toContain('export const orderEventsGlobalSecondaryIndexes: GSIConfiguration[] = [');
+    expect(output).toContain('nonKeyAttributes: ["Total"],');
+    expect(output).toContain('// Warning:');
+  });
+
+  test('JSON output round-trips to the same configurations', () => {
+    const result = importFromDescribeTable(provisionedTable());
+
+    expect(JSON.parse(renderConfigurationsAsJson(result))).toEqual(result.configurations);
+  });
+});
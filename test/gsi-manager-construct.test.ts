@@ -0,0 +1,570 @@
+import * as cdk from 'aws-cdk-lib';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { GsiManager, GsiManagerConstructProps } from '../lib/gsi-manager-construct';
+
+// Skip esbuild bundling of the handler Lambdas; these tests only inspect the construct tree.
+const createStack = () => {
+  const app = new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } });
+  const stack = new cdk.Stack(app, 'TestStack');
+  const table = new dynamodb.Table(stack, 'Table', {
+    partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+  });
+  return { stack, table };
+};
+
+const synthesizeWith = (
+  globalSecondaryIndexes: GsiManagerConstructProps['globalSecondaryIndexes']
+) => {
+  const { stack, table } = createStack();
+  new GsiManager(stack, 'GsiManager', { table, globalSecondaryIndexes });
+  return Annotations.fromStack(stack);
+};
+
+describe('GsiManager configuration validation', () => {
+  test('reports invalid configurations as synth errors', () => {
+    const annotations = synthesizeWith([
+      { indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } },
+      { indexName: 'GSI1', partitionKey: { name: 'GSI2PK', type: 'S' } },
+    ]);
+
+    annotations.hasError('*', Match.stringLikeRegexp('DUPLICATE_INDEX_NAME'));
+  });
+
+  test('reports GSI keys that clash with the table key type', () => {
+    const annotations = synthesizeWith([
+      { indexName: 'GSI1', partitionKey: { name: 'PK', type: 'N' } },
+    ]);
+
+    annotations.hasError('*', Match.stringLikeRegexp('CONFLICTING_ATTRIBUTE_TYPE.*base table'));
+  });
+
+  test('reports GSI keys that clash with a local secondary index key type', () => {
+    const app = new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } });
+    const stack = new cdk.Stack(app, 'TestStack');
+    const table = new dynamodb.Table(stack, 'Table', {
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'SK', type: dynamodb.AttributeType.STRING },
+    });
+    table.addLocalSecondaryIndex({
+      indexName: 'ByCreatedAt',
+      sortKey: { name: 'CreatedAt', type: dynamodb.AttributeType.NUMBER },
+    });
+    new GsiManager(stack, 'GsiManager', {
+      table,
+      globalSecondaryIndexes: [{ indexName: 'GSI1', partitionKey: { name: 'CreatedAt', type: 'S' } }],
+    });
+
+    Annotations.fromStack(stack).hasError(
+      '*',
+      Match.stringLikeRegexp('CONFLICTING_ATTRIBUTE_TYPE.*"CreatedAt" as S.*declares it as N')
+    );
+  });
+
+  test('reports suspicious configurations as warnings', () => {
+    const annotations = synthesizeWith([
+      {
+        indexName: 'GSI1',
+        partitionKey: { name: 'GSI1PK', type: 'S' },
+        replacementConfirmationToken: 'abc123',
+      },
+    ]);
+
+    annotations.hasNoError('*', Match.anyValue());
+    annotations.hasWarning('*', Match.stringLikeRegexp('UNUSED_CONFIRMATION_TOKEN'));
+  });
+
+  test('does not annotate a valid configuration', () => {
+    const annotations = synthesizeWith([
+      {
+        indexName: 'GSI1',
+        partitionKey: { name: 'GSI1PK', type: 'S' },
+        sortKey: { name: 'GSI1SK', type: 'S' },
+      },
+    ]);
+
+    annotations.hasNoError('*', Match.anyValue());
+    annotations.hasNoWarning('*', Match.stringLikeRegexp('GSI'));
+  });
+});
+
+describe('GsiManager table sources', () => {
+  const globalSecondaryIndexes: GsiManagerConstructProps['globalSecondaryIndexes'] = [
+    { indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } },
+  ];
+
+  test('accepts a TableV2 and checks its key schema', () => {
+    const app = new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } });
+    const stack = new cdk.Stack(app, 'TestStack');
+    const table = new dynamodb.TableV2(stack, 'Table', {
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+    });
+
+    new GsiManager(stack, 'GsiManager', {
+      table,
+      globalSecondaryIndexes: [{ indexName: 'GSI1', partitionKey: { name: 'PK', type: 'N' } }],
+    });
+
+    Annotations.fromStack(stack).hasError(
+      '*',
+      Match.stringLikeRegexp('CONFLICTING_ATTRIBUTE_TYPE.*base table')
+    );
+  });
+
+  test('manages an imported table without depending on it', () => {
+    const app = new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } });
+    const stack = new cdk.Stack(app, 'TestStack', {
+      env: { account: '123456789012', region: 'us-east-1' },
+    });
+    const table = dynamodb.Table.fromTableName(stack, 'Table', 'legacy-table');
+
+    new GsiManager(stack, 'GsiManager', { table, globalSecondaryIndexes });
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::CloudFormation::CustomResource', {
+      tableName: 'legacy-table',
+    });
+    template.hasResource('AWS::CloudFormation::CustomResource', {
+      DependsOn: Match.absent(),
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: ['dynamodb:DescribeTable', 'dynamodb:UpdateTable'],
+            Resource: {
+              'Fn::Join': ['', Match.arrayWith([':dynamodb:us-east-1:123456789012:table/legacy-table'])],
+            },
+          }),
+        ]),
+      },
+    });
+  });
+});
+
+describe('GsiManager billing mode', () => {
+  const globalSecondaryIndexes: GsiManagerConstructProps['globalSecondaryIndexes'] = [
+    {
+      indexName: 'GSI1',
+      partitionKey: { name: 'GSI1PK', type: 'S' },
+      provisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 5 },
+    },
+  ];
+  const billing = {
+    billingMode: 'PROVISIONED' as const,
+    tableProvisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 5 },
+  };
+
+  test('warns that switching the billing mode of a CDK-owned table drifts from its template', () => {
+    const { stack, table } = createStack();
+    new GsiManager(stack, 'GsiManager', { table, globalSecondaryIndexes, ...billing });
+
+    Annotations.fromStack(stack).hasWarning(
+      '/TestStack/GsiManager',
+      Match.stringLikeRegexp('BILLING_MODE_ON_OWNED_TABLE|outside of CloudFormation')
+    );
+  });
+
+  test('does not warn for imported tables', () => {
+    const { stack } = createStack();
+    const table = dynamodb.Table.fromTableName(stack, 'Imported', 'legacy-table');
+    new GsiManager(stack, 'GsiManager', { table, globalSecondaryIndexes, ...billing });
+
+    Annotations.fromStack(stack).hasNoWarning(
+      '/TestStack/GsiManager',
+      Match.stringLikeRegexp('outside of CloudFormation')
+    );
+  });
+});
+
+describe('GsiManager handler permissions', () => {
+  const globalSecondaryIndexes: GsiManagerConstructProps['globalSecondaryIndexes'] = [
+    { indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } },
+  ];
+
+  test('grants only control-plane actions on the managed table', () => {
+    const { stack, table } = createStack();
+    new GsiManager(stack, 'GsiManager', { table, globalSecondaryIndexes });
+
+    // The operation state table keeps its data-plane grants; only statements on the
+    // managed table are checked here.
+    const tableLogicalId = stack.getLogicalId(table.node.defaultChild as cdk.CfnElement);
+    const policies = Template.fromStack(stack).findResources('AWS::IAM::Policy');
+    const actions = Object.values(policies)
+      .flatMap((policy) => policy.Properties.PolicyDocument.Statement)
+      .filter((statement: { Resource: unknown }) =>
+        JSON.stringify(statement.Resource).includes(`"${tableLogicalId}"`)
+      )
+      .flatMap((statement: { Action: string | string[] }) => [statement.Action].flat());
+
+    expect(actions).toContain('dynamodb:UpdateTable');
+    expect(actions).not.toContain('dynamodb:Query');
+    expect(actions).not.toContain('dynamodb:UpdateContributorInsights');
+  });
+
+  test('supports extra statements and a permissions boundary', () => {
+    const { stack, table } = createStack();
+    const boundary = iam.ManagedPolicy.fromManagedPolicyName(stack, 'Boundary', 'gsi-boundary');
+    const manager = new GsiManager(stack, 'GsiManager', {
+      table,
+      globalSecondaryIndexes,
+      permissionsBoundary: boundary,
+    });
+
+    manager.addToHandlerRolePolicy(
+      new iam.PolicyStatement({ actions: ['sns:Publish'], resources: ['*'] })
+    );
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([Match.objectLike({ Action: 'sns:Publish' })]),
+      },
+    });
+    template.allResourcesProperties('AWS::IAM::Role', {
+      PermissionsBoundary: Match.objectLike({
+        'Fn::Join': ['', Match.arrayWith([':policy/gsi-boundary'])],
+      }),
+    });
+  });
+});
+
+describe('GsiManager provider', () => {
+  const globalSecondaryIndexes: GsiManagerConstructProps['globalSecondaryIndexes'] = [
+    { indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } },
+  ];
+
+  test('keeps the ServiceToken of existing managers by default', () => {
+    const { stack, table } = createStack();
+    new GsiManager(stack, 'GsiManager', { table, globalSecondaryIndexes });
+
+    // Logical IDs from releases that created the provider inside each GsiManager.
+    // CloudFormation rejects any change to the ServiceToken of a deployed custom resource.
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::CloudFormation::CustomResource', {
+      ServiceToken: { 'Fn::GetAtt': ['GsiManagerProviderframeworkonEventEFB6CFD4', 'Arn'] },
+    });
+    expect(Object.keys(template.findResources('AWS::CloudFormation::CustomResource'))).toEqual([
+      'GsiManagerA11B5865',
+    ]);
+    expect(Object.keys(template.findResources('AWS::Lambda::Function'))).toEqual(
+      expect.arrayContaining(['GsiManagerOnEventHandler0079D88C', 'GsiManagerIsCompleteHandler8427D5D9'])
+    );
+    expect(Object.keys(template.findResources('AWS::DynamoDB::Table'))).toContain(
+      'GsiManagerOperationStateTable06FD3494'
+    );
+  });
+
+  test('creates the handlers and provider once per stack when shared', () => {
+    const { stack, table } = createStack();
+    const other = new dynamodb.Table(stack, 'OtherTable', {
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+    });
+    const first = new GsiManager(stack, 'First', { table, globalSecondaryIndexes, shareProvider: true });
+    const second = new GsiManager(stack, 'Second', {
+      table: other,
+      globalSecondaryIndexes,
+      shareProvider: true,
+    });
+    new GsiManager(stack, 'Dedicated', { table: other, globalSecondaryIndexes });
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs('AWS::CloudFormation::CustomResource', 3);
+    template.resourceCountIs('AWS::StepFunctions::StateMachine', 2);
+    template.resourcePropertiesCountIs(
+      'AWS::Lambda::Function',
+      { Handler: 'index.onEventHandler' },
+      2
+    );
+    expect(first.provider).toBe(second.provider);
+    expect(first.operationStateTable).toBe(second.operationStateTable);
+  });
+
+  test('warns when a later manager sets different provider settings', () => {
+    const { stack, table } = createStack();
+    const shared = { table, globalSecondaryIndexes, shareProvider: true };
+    new GsiManager(stack, 'First', { ...shared, timeout: cdk.Duration.minutes(3) });
+    new GsiManager(stack, 'Same', { ...shared, timeout: cdk.Duration.minutes(3) });
+    new GsiManager(stack, 'Different', {
+      ...shared,
+      timeout: cdk.Duration.minutes(10),
+      handlerOptions: { memorySize: 1024 },
+    });
+
+    const annotations = Annotations.fromStack(stack);
+    annotations.hasWarning('/TestStack/Different', Match.stringLikeRegexp('"timeout", "handlerOptions"'));
+    annotations.hasNoWarning('/TestStack/Same', Match.stringLikeRegexp('PROVIDER_SETTINGS_IGNORED|ignored'));
+  });
+});
+
+describe('GsiManager handler options', () => {
+  test('encrypts the handler log group with logEncryptionKey', () => {
+    const { stack, table } = createStack();
+    const key = new kms.Key(stack, 'LogKey');
+    new GsiManager(stack, 'GsiManager', {
+      table,
+      globalSecondaryIndexes: [{ indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } }],
+      logEncryptionKey: key,
+    });
+
+    const template = Template.fromStack(stack);
+    const keyArn = { 'Fn::GetAtt': [stack.getLogicalId(key.node.defaultChild as kms.CfnKey), 'Arn'] };
+    template.hasResourceProperties('AWS::Logs::LogGroup', { KmsKeyId: keyArn });
+    template.hasResourceProperties('AWS::KMS::Key', {
+      KeyPolicy: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Effect: 'Allow',
+            Principal: {
+              Service: { 'Fn::Join': ['', ['logs.', { Ref: 'AWS::Region' }, '.amazonaws.com']] },
+            },
+            Action: Match.arrayWith(['kms:Decrypt', 'kms:Encrypt', 'kms:GenerateDataKey*']),
+          }),
+        ]),
+      },
+    });
+  });
+
+  test('applies runtime settings to both handlers', () => {
+    const { stack, table } = createStack();
+    new GsiManager(stack, 'GsiManager', {
+      table,
+      globalSecondaryIndexes: [{ indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } }],
+      handlerOptions: {
+        runtime: lambda.Runtime.NODEJS_22_X,
+        architecture: lambda.Architecture.ARM_64,
+        memorySize: 1024,
+        isCompleteTimeout: cdk.Duration.minutes(10),
+        environment: { LOG_LEVEL: 'debug' },
+        reservedConcurrentExecutions: 2,
+        tracing: lambda.Tracing.ACTIVE,
+      },
+    });
+
+    const template = Template.fromStack(stack);
+    const expected = {
+      Runtime: 'nodejs22.x',
+      Architectures: ['arm64'],
+      MemorySize: 1024,
+      ReservedConcurrentExecutions: 2,
+      TracingConfig: { Mode: 'Active' },
+      Environment: {
+        Variables: Match.objectLike({ LOG_LEVEL: 'debug', GSI_MANAGER_TRACING_ENABLED: 'true' }),
+      },
+    };
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      ...expected,
+      Handler: 'index.onEventHandler',
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      ...expected,
+      Handler: 'index.isCompleteHandler',
+      Timeout: 600,
+    });
+  });
+});
+
+describe('GsiManager timeouts', () => {
+  test('passes waiter settings and the per-operation budget to the handlers', () => {
+    const { stack, table } = createStack();
+    new GsiManager(stack, 'GsiManager', {
+      table,
+      globalSecondaryIndexes: [{ indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } }],
+      queryInterval: cdk.Duration.minutes(1),
+      totalTimeout: cdk.Duration.hours(1),
+      operationTimeout: cdk.Duration.minutes(45),
+      waiter: { maxDelayMs: 60_000 },
+    });
+
+    Template.fromStack(stack).hasResourceProperties('AWS::CloudFormation::CustomResource', {
+      waiter: { maxDelayMs: 60_000 },
+      operationTimeoutSeconds: 2700,
+    });
+    Annotations.fromStack(stack).hasNoError('*', Match.anyValue());
+  });
+
+  test('rejects a totalTimeout beyond the provider framework limit of one hour', () => {
+    const { stack, table } = createStack();
+    new GsiManager(stack, 'GsiManager', {
+      table,
+      globalSecondaryIndexes: [{ indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } }],
+      totalTimeout: cdk.Duration.hours(2),
+    });
+
+    Annotations.fromStack(stack).hasError(
+      '*',
+      Match.stringLikeRegexp('totalTimeout is 2 hours.*stop waiting after 1 hour')
+    );
+  });
+});
+
+describe('GsiManager auto scaling', () => {
+  test('registers scalable targets on the physical index', () => {
+    const { stack, table } = createStack();
+
+    new GsiManager(stack, 'GsiManager', {
+      table,
+      globalSecondaryIndexes: [
+        {
+          indexName: 'GSI1',
+          partitionKey: { name: 'GSI1PK', type: 'S' },
+          provisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 5 },
+          autoScaling: { read: { minCapacity: 5, maxCapacity: 50, targetUtilizationPercent: 70 } },
+        },
+      ],
+    });
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs('AWS::ApplicationAutoScaling::ScalableTarget', 1);
+    template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalableTarget', {
+      ScalableDimension: 'dynamodb:index:ReadCapacityUnits',
+      MinCapacity: 5,
+      MaxCapacity: 50,
+      ResourceId: {
+        'Fn::Join': [
+          '',
+          Match.arrayWith([
+            { 'Fn::GetAtt': [Match.stringLikeRegexp('GsiManager'), 'physicalIndexName.GSI1'] },
+          ]),
+        ],
+      },
+    });
+    template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalingPolicy', {
+      TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+        TargetValue: 70,
+        PredefinedMetricSpecification: { PredefinedMetricType: 'DynamoDBReadCapacityUtilization' },
+      }),
+    });
+  });
+  const scaledIndex = {
+    indexName: 'GSI1',
+    partitionKey: { name: 'GSI1PK', type: 'S' as const },
+    provisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 5 },
+    autoScaling: { read: { minCapacity: 5, maxCapacity: 50, targetUtilizationPercent: 70 } },
+  };
+
+  test('rejects autoScaling on tables that stay on-demand', () => {
+    const app = new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } });
+    const stack = new cdk.Stack(app, 'TestStack');
+    const onDemand = new dynamodb.Table(stack, 'OnDemand', {
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+    const tableV2 = new dynamodb.TableV2(stack, 'TableV2', {
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+    });
+    new GsiManager(stack, 'OnDemandManager', { table: onDemand, globalSecondaryIndexes: [scaledIndex] });
+    new GsiManager(stack, 'TableV2Manager', { table: tableV2, globalSecondaryIndexes: [scaledIndex] });
+    new GsiManager(stack, 'SwitchedManager', {
+      table: dynamodb.Table.fromTableName(stack, 'Provisioned', 'Provisioned'),
+      globalSecondaryIndexes: [scaledIndex],
+      billingMode: 'PAY_PER_REQUEST',
+    });
+
+    const annotations = Annotations.fromStack(stack);
+    const onDemandError = Match.stringLikeRegexp(
+      'INVALID_AUTO_SCALING.*GSI "GSI1" defines autoScaling, but the table\'s billing mode is "PAY_PER_REQUEST"'
+    );
+    annotations.hasError('/TestStack/OnDemandManager', onDemandError);
+    annotations.hasError('/TestStack/TableV2Manager', onDemandError);
+    annotations.hasError('/TestStack/SwitchedManager', onDemandError);
+  });
+
+  test('does not register scaling for indexes that a dry run never creates', () => {
+    const { stack, table } = createStack();
+
+    new GsiManager(stack, 'GsiManager', { table, globalSecondaryIndexes: [scaledIndex], dryRun: true });
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs('AWS::ApplicationAutoScaling::ScalableTarget', 0);
+    template.resourceCountIs('AWS::ApplicationAutoScaling::ScalingPolicy', 0);
+    Annotations.fromStack(stack).hasWarning(
+      '/TestStack/GsiManager',
+      Match.stringLikeRegexp('dryRun is enabled, so autoScaling is not configured')
+    );
+  });
+
+  test('accepts autoScaling when billingMode is PROVISIONED', () => {
+    const app = new cdk.App({ context: { 'aws:cdk:bundling-stacks': [] } });
+    const stack = new cdk.Stack(app, 'TestStack');
+    new GsiManager(stack, 'GsiManager', {
+      table: dynamodb.Table.fromTableName(stack, 'OnDemand', 'OnDemand'),
+      globalSecondaryIndexes: [scaledIndex],
+      billingMode: 'PROVISIONED',
+      tableProvisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 5 },
+    });
+
+    Annotations.fromStack(stack).hasNoError('*', Match.anyValue());
+  });
+});
+
+describe('GsiManager index grants', () => {
+  const setup = () => {
+    const { stack, table } = createStack();
+    const manager = new GsiManager(stack, 'GsiManager', {
+      table,
+      globalSecondaryIndexes: [
+        { indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } },
+        { indexName: 'GSI2', partitionKey: { name: 'GSI2PK', type: 'S' } },
+      ],
+    });
+    const role = new iam.Role(stack, 'Reader', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+    });
+    return { stack, manager, role };
+  };
+
+  test('grantQueryIndex scopes Query to the physical index ARN', () => {
+    const { stack, manager, role } = setup();
+
+    manager.grantQueryIndex(role, 'GSI1');
+
+    Template.fromStack(stack).hasResourceProperties('AWS::IAM::Policy', {
+      Roles: [{ Ref: Match.stringLikeRegexp('Reader') }],
+      PolicyDocument: {
+        Statement: [
+          {
+            Action: 'dynamodb:Query',
+            Effect: 'Allow',
+            Resource: {
+              'Fn::Join': [
+                '',
+                Match.arrayWith([
+                  '/index/',
+                  { 'Fn::GetAtt': [Match.stringLikeRegexp('GsiManager'), 'physicalIndexName.GSI1'] },
+                ]),
+              ],
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  test('grantReadIndexes covers every managed index', () => {
+    const { stack, manager, role } = setup();
+
+    manager.grantReadIndexes(role);
+
+    Template.fromStack(stack).hasResourceProperties('AWS::IAM::Policy', {
+      Roles: [{ Ref: Match.stringLikeRegexp('Reader') }],
+      PolicyDocument: {
+        Statement: [
+          Match.objectLike({
+            Action: ['dynamodb:Query', 'dynamodb:Scan'],
+            Resource: [Match.anyValue(), Match.anyValue()],
+          }),
+        ],
+      },
+    });
+  });
+
+  test('rejects indexes the construct does not manage', () => {
+    const { manager } = setup();
+
+    expect(() => manager.indexArn('Unknown')).toThrow(/not managed/);
+  });
+});
@@ -0,0 +1,157 @@
+import type { TableDescription } from '@aws-sdk/client-dynamodb';
+import { planFromDescribeTable, renderPlan } from '../lib/gsi-plan';
+
+const describeTable = (): TableDescription => ({
+  TableName: 'Orders',
+  BillingModeSummary: { BillingMode: 'PAY_PER_REQUEST' },
+  AttributeDefinitions: [
+    { AttributeName: 'PK', AttributeType: 'S' },
+    { AttributeName: 'GSI1PK', AttributeType: 'S' },
+    { AttributeName: 'GSI2PK', AttributeType: 'S' },
+    { AttributeName: 'Legacy', AttributeType: 'S' },
+  ],
+  KeySchema: [{ AttributeName: 'PK', KeyType: 'HASH' }],
+  GlobalSecondaryIndexes: [
+    {
+      IndexName: 'GSI1',
+      KeySchema: [{ AttributeName: 'GSI1PK', KeyType: 'HASH' }],
+      Projection: { ProjectionType: 'ALL' },
+      IndexStatus: 'ACTIVE',
+    },
+    {
+      IndexName: 'GSI2',
+      KeySchema: [{ AttributeName: 'GSI2PK', KeyType: 'HASH' }],
+      Projection: { ProjectionType: 'ALL' },
+      IndexStatus: 'ACTIVE',
+    },
+    {
+      IndexName: 'Legacy',
+      KeySchema: [{ AttributeName: 'Legacy', KeyType: 'HASH' }],
+      Projection: { ProjectionType: 'KEYS_ONLY' },
+      IndexStatus: 'ACTIVE',
+    },
+  ],
+});
+
+describe('planFromDescribeTable', () => {
+  test('reports no changes when the snapshot matches the configuration', () => {
+    const plan = planFromDescribeTable({
+      table: describeTable(),
+      config: {
+        globalSecondaryIndexes: [
+          { indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } },
+          { indexName: 'GSI2', partitionKey: { name: 'GSI2PK', type: 'S' } },
+        ],
+      },
+    });
+
+    expect(plan.operations).toEqual([]);
+    expect(plan.unmanagedIndexNames).toEqual(['Legacy']);
+    expect(renderPlan(plan)).toContain('No changes.');
+  });
+
+  test('marks a delete-then-create replacement as destructive', () => {
+    const plan = planFromDescribeTable({
+      table: describeTable(),
+      config: {
+        globalSecondaryIndexes: [
+          {
+            indexName: 'GSI1',
+            partitionKey: { name: 'GSI1PK', type: 'S' },
+            sortKey: { name: 'GSI1SK', type: 'S' },
+          },
+          { indexName: 'GSI3', partitionKey: { name: 'GSI3PK', type: 'S' } },
+        ],
+      },
+      previousConfig: {
+        globalSecondaryIndexes: [{ indexName: 'GSI2', partitionKey: { name: 'GSI2PK', type: 'S' } }],
+      },
+    });
+    const output = renderPlan(plan);
+
+    expect(plan.operations.map((operation) => `${operation.type} ${operation.indexName}`)).toEqual([
+      'DELETE GSI2',
+      'DELETE GSI1',
+      'CREATE GSI1',
+      'CREATE GSI3',
+    ]);
+    expect(output).toContain('-/+ GSI1');
+    expect(output).toContain('DESTRUCTIVE');
+    expect(output).toContain('sortKey: (none) -> GSI1SK (S)');
+    expect(output).toContain('  - GSI2');
+    expect(output).toContain('  + GSI3');
+    expect(output).toContain('Plan: 1 to add, 0 to change, 1 to destroy, 1 to replace.');
+  });
+
+  test('shows blue/green replacements as create-before-destroy', () => {
+    const output = renderPlan(
+      planFromDescribeTable({
+        table: describeTable(),
+        config: {
+          globalSecondaryIndexes: [
+            {
+              indexName: 'GSI1',
+              partitionKey: { name: 'GSI1PK', type: 'S' },
+              projectionType: 'KEYS_ONLY',
+              replacementStrategy: 'blueGreen',
+            },
+          ],
+        },
+      })
+    );
+
+    expect(output).toContain('+/- GSI1');
+    expect(output).toContain('physicalName: GSI1 -> GSI1__v2');
+    expect(output).not.toContain('DESTRUCTIVE');
+  });
+
+  test('lists replacements that the replacementPolicy would reject', () => {
+    const plan = planFromDescribeTable({
+      table: describeTable(),
+      config: {
+        globalSecondaryIndexes: [
+          {
+            indexName: 'GSI1',
+            partitionKey: { name: 'GSI1PK', type: 'N' },
+            replacementPolicy: 'deny',
+          },
+        ],
+      },
+    });
+
+    expect(plan.blockedReplacements).toHaveLength(1);
+    expect(renderPlan(plan)).toContain('Error: replacement would be rejected');
+  });
+
+  test('rejects an invalid configuration like the Lambda does', () => {
+    expect(() =>
+      planFromDescribeTable({
+        table: describeTable(),
+        config: {
+          globalSecondaryIndexes: [{ indexName: 'GSI1', partitionKey: { name: 'PK', type: 'N' } }],
+        },
+      })
+    ).toThrow('Invalid GSI configuration detected');
+  });
+
+  test('rejects key types that clash with an unmanaged index the plan keeps', () => {
+    const config = {
+      globalSecondaryIndexes: [
+        { indexName: 'GSI1', partitionKey: { name: 'GSI1PK', type: 'S' } },
+        { indexName: 'GSI2', partitionKey: { name: 'GSI2PK', type: 'S' } },
+        { indexName: 'GSI3', partitionKey: { name: 'Legacy', type: 'N' } },
+      ],
+    };
+
+    expect(() => planFromDescribeTable({ table: describeTable(), config })).toThrow(
+      /CONFLICTING_ATTRIBUTE_TYPE.*"Legacy" as N, but existing GSI "Legacy" declares it as S/
+    );
+    // Under "adopt" the unmanaged index is deleted before GSI3 is created.
+    expect(
+      planFromDescribeTable({
+        table: describeTable(),
+        config: { ...config, unmanagedIndexPolicy: 'adopt' },
+      }).operations.map((operation) => `${operation.type} ${operation.indexName}`)
+    ).toEqual(['DELETE Legacy', 'CREATE GSI3']);
+  });
+});
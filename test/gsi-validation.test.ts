@@ -0,0 +1,156 @@
+import type { GSIConfiguration, UnmanagedIndexPolicy } from '../lib/types';
+import { collectGsiConfigurationIssues, validateGsiConfigurations } from '../lib/types';
+
+const gsi = (indexName: string, overrides: Partial<GSIConfiguration> = {}): GSIConfiguration => ({
+  indexName,
+  partitionKey: { name: `${indexName}PK`, type: 'S' },
+  ...overrides,
+});
+
+const errorCodes = (configurations: GSIConfiguration[]) =>
+  collectGsiConfigurationIssues(configurations)
+    .filter((issue) => issue.severity === 'error')
+    .map((issue) => issue.code);
+
+describe('collectGsiConfigurationIssues', () => {
+  test('accepts a valid configuration', () => {
+    expect(
+      errorCodes([
+        gsi('GSI1', {
+          projectionType: 'INCLUDE',
+          nonKeyAttributes: ['Status'],
+          provisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 5 },
+        }),
+      ])
+    ).toEqual([]);
+  });
+
+  test('rejects more than 20 indexes', () => {
+    const configurations = Array.from({ length: 21 }, (_, i) => gsi(`GSI${i + 1}`));
+
+    expect(errorCodes(configurations)).toEqual(['TOO_MANY_INDEXES']);
+  });
+
+  test.each(['ab', 'GSI 1', 'GSI#1', 'x'.repeat(256)])('rejects index name %p', (name) => {
+    expect(errorCodes([gsi(name)])).toEqual(['INVALID_INDEX_NAME']);
+  });
+
+  test('leaves room for the version suffix of a blue/green replacement', () => {
+    const name = 'x'.repeat(250);
+
+    expect(errorCodes([gsi(name)])).toEqual([]);
+    expect(errorCodes([gsi(name, { replacementStrategy: 'blueGreen' })])).toEqual(['INVALID_INDEX_NAME']);
+    expect(errorCodes([gsi('x'.repeat(249), { replacementStrategy: 'blueGreen' })])).toEqual([]);
+  });
+
+  test('rejects more than 100 projected non-key attributes across all indexes', () => {
+    const attributes = Array.from({ length: 51 }, (_, i) => `attr${i}`);
+    const configurations = ['GSI1', 'GSI2'].map((name) =>
+      gsi(name, { projectionType: 'INCLUDE', nonKeyAttributes: attributes })
+    );
+
+    expect(errorCodes(configurations)).toEqual(['TOO_MANY_PROJECTED_ATTRIBUTES']);
+  });
+
+  test('rejects nonKeyAttributes without an INCLUDE projection', () => {
+    expect(errorCodes([gsi('GSI1', { projectionType: 'ALL', nonKeyAttributes: ['Status'] })])).toEqual([
+      'NON_KEY_ATTRIBUTES_WITHOUT_INCLUDE',
+    ]);
+  });
+
+  test('rejects key attributes repeated in nonKeyAttributes', () => {
+    expect(
+      errorCodes([gsi('GSI1', { projectionType: 'INCLUDE', nonKeyAttributes: ['GSI1PK', 'Status'] })])
+    ).toEqual(['KEY_ATTRIBUTE_IN_NON_KEY_ATTRIBUTES']);
+  });
+
+  test.each([0, -1, 1.5, Number.NaN])('rejects throughput value %p', (value) => {
+    expect(
+      errorCodes([
+        gsi('GSI1', { provisionedThroughput: { readCapacityUnits: value, writeCapacityUnits: 1 } }),
+      ])
+    ).toEqual(['INVALID_THROUGHPUT']);
+  });
+
+  test('accepts -1 as "no limit" for on-demand throughput', () => {
+    expect(errorCodes([gsi('GSI1', { onDemandThroughput: { maxReadRequestUnits: -1 } })])).toEqual([]);
+    expect(errorCodes([gsi('GSI1', { onDemandThroughput: { maxReadRequestUnits: 0 } })])).toEqual([
+      'INVALID_THROUGHPUT',
+    ]);
+  });
+});
+
+describe('attribute type conflicts', () => {
+  test('rejects the same attribute declared with different types by two GSIs', () => {
+    const configurations = [
+      gsi('GSI1', { sortKey: { name: 'CreatedAt', type: 'N' } }),
+      gsi('GSI2', { sortKey: { name: 'CreatedAt', type: 'S' } }),
+    ];
+
+    const [issue] = collectGsiConfigurationIssues(configurations);
+    expect(issue.code).toBe('CONFLICTING_ATTRIBUTE_TYPE');
+    expect(issue.message).toContain('GSI "GSI1" declares it as N');
+  });
+
+  test('rejects a GSI key that clashes with the base table key type', () => {
+    const configurations = [gsi('GSI1', { partitionKey: { name: 'PK', type: 'N' } })];
+
+    expect(
+      validateGsiConfigurations(configurations, {
+        tableAttributes: [{ name: 'PK', type: 'S' }],
+      })
+    ).toEqual([
+      '[CONFLICTING_ATTRIBUTE_TYPE] GSI "GSI1" partitionKey declares attribute "PK" as N, but the base table declares it as S.',
+    ]);
+  });
+
+  test('accepts attributes shared with a matching type', () => {
+    const configurations = [
+      gsi('GSI1', { sortKey: { name: 'PK', type: 'S' } }),
+      gsi('GSI2', { sortKey: { name: 'PK', type: 'S' } }),
+    ];
+
+    expect(errorCodes(configurations)).toEqual([]);
+    expect(
+      validateGsiConfigurations(configurations, { tableAttributes: [{ name: 'PK', type: 'S' }] })
+    ).toEqual([]);
+  });
+});
+
+describe('billing mode', () => {
+  test('requires capacity for the table and every GSI when switching to PROVISIONED', () => {
+    const codes = collectGsiConfigurationIssues([gsi('GSI1')], { billingMode: 'PROVISIONED' }).map(
+      (issue) => issue.code
+    );
+
+    expect(codes).toEqual(['INVALID_BILLING_MODE', 'INVALID_BILLING_MODE']);
+  });
+});
+
+describe('unmanaged index policy', () => {
+  test('rejects a value other than retain, adopt or fail', () => {
+    const issues = collectGsiConfigurationIssues([gsi('GSI1')], {
+      unmanagedIndexPolicy: 'fial' as UnmanagedIndexPolicy,
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        code: 'INVALID_UNMANAGED_INDEX_POLICY',
+        message: expect.stringContaining('"fial"'),
+      }),
+    ]);
+  });
+
+  test.each(['retain', 'adopt', 'fail'] as const)('accepts %p', (unmanagedIndexPolicy) => {
+    expect(collectGsiConfigurationIssues([gsi('GSI1')], { unmanagedIndexPolicy })).toEqual([]);
+  });
+});
+
+describe('validateGsiConfigurations', () => {
+  test('prefixes each error with its code', () => {
+    expect(validateGsiConfigurations([gsi('GSI1'), gsi('GSI1')])).toEqual([
+      '[DUPLICATE_INDEX_NAME] GSI "GSI1" is defined more than once.',
+    ]);
+  });
+});
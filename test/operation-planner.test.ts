@@ -0,0 +1,314 @@
+import type { GSIConfiguration, GSIInfo } from '../lib/types';
+import {
+  computeReplacementToken,
+  findBlockedReplacements,
+  planGsiOperations,
+  resolvePhysicalIndexNames,
+} from '../lambda/gsi-manager/src/operation-planner';
+
+const current: GSIInfo = {
+  indexName: 'GSI1',
+  keySchema: [
+    { attributeName: 'GSI1PK', keyType: 'HASH' },
+    { attributeName: 'GSI1SK', keyType: 'RANGE' },
+  ],
+  projection: { projectionType: 'ALL' },
+  indexStatus: 'ACTIVE',
+};
+
+const changedKeySchema: GSIConfiguration = {
+  indexName: 'GSI1',
+  partitionKey: { name: 'GSI1PK', type: 'S' },
+  sortKey: { name: 'CreatedAt', type: 'S' },
+};
+
+describe('planGsiOperations', () => {
+  test('emits DELETE + CREATE with reasons when the key schema changes', () => {
+    const operations = planGsiOperations([current], [changedKeySchema]);
+
+    expect(operations.map((op) => [op.type, op.indexName, op.replacement])).toEqual([
+      ['DELETE', 'GSI1', true],
+      ['CREATE', 'GSI1', true],
+    ]);
+    expect(operations[0].reason).toBe('replacement required (key schema changed)');
+  });
+
+  test('treats a key attribute type change as a replacement', () => {
+    const typed: GSIInfo = {
+      ...current,
+      keySchema: [
+        { attributeName: 'GSI1PK', keyType: 'HASH', attributeType: 'S' },
+        { attributeName: 'GSI1SK', keyType: 'RANGE', attributeType: 'N' },
+      ],
+    };
+
+    const operations = planGsiOperations(
+      [typed],
+      [{ ...changedKeySchema, sortKey: { name: 'GSI1SK', type: 'S' } }]
+    );
+
+    expect(operations.map((op) => [op.type, op.reason])).toEqual([
+      ['DELETE', 'replacement required (key attribute type changed)'],
+      ['CREATE', 'replacement required (key attribute type changed)'],
+    ]);
+  });
+
+  test('emits nothing when the index already matches', () => {
+    const operations = planGsiOperations(
+      [current],
+      [{ ...changedKeySchema, sortKey: { name: 'GSI1SK', type: 'S' } }]
+    );
+
+    expect(operations).toEqual([]);
+  });
+});
+
+describe('in-place updates', () => {
+  const desired: GSIConfiguration = { ...changedKeySchema, sortKey: { name: 'GSI1SK', type: 'S' } };
+
+  test('raises warm throughput without resending provisioned throughput', () => {
+    const operations = planGsiOperations(
+      [
+        {
+          ...current,
+          provisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 5 },
+          warmThroughput: { readUnitsPerSecond: 12000, writeUnitsPerSecond: 4000 },
+        },
+      ],
+      [
+        {
+          ...desired,
+          provisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 5 },
+          warmThroughput: { readUnitsPerSecond: 20000 },
+        },
+      ]
+    );
+
+    expect(operations).toHaveLength(1);
+    expect(operations[0]).toMatchObject({ type: 'UPDATE', reason: 'warm throughput changed' });
+    expect(operations[0].desiredConfiguration?.provisionedThroughput).toBeUndefined();
+    expect(operations[0].desiredConfiguration?.warmThroughput).toEqual({ readUnitsPerSecond: 20000 });
+  });
+
+  test('leaves capacity alone when auto scaling owns it', () => {
+    const operations = planGsiOperations(
+      [{ ...current, provisionedThroughput: { readCapacityUnits: 42, writeCapacityUnits: 5 } }],
+      [
+        {
+          ...desired,
+          provisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 5 },
+          autoScaling: { read: { minCapacity: 5, maxCapacity: 50, targetUtilizationPercent: 70 } },
+        },
+      ]
+    );
+
+    expect(operations).toEqual([]);
+  });
+
+  test('enables contributor insights on a new index once it has been created', () => {
+    const operations = planGsiOperations([], [{ ...desired, contributorInsights: true }]);
+
+    expect(operations.map((op) => [op.type, op.indexName])).toEqual([
+      ['CREATE', 'GSI1'],
+      ['UPDATE', 'GSI1'],
+    ]);
+    expect(operations[1].desiredConfiguration?.contributorInsights).toBe(true);
+  });
+
+  test('applies contributor insights separately from capacity changes', () => {
+    const operations = planGsiOperations(
+      [{ ...current, warmThroughput: { readUnitsPerSecond: 100 }, contributorInsights: true }],
+      [{ ...desired, warmThroughput: { readUnitsPerSecond: 200 }, contributorInsights: false }]
+    );
+
+    expect(operations.map((op) => op.reason)).toEqual([
+      'warm throughput changed',
+      'contributor insights changed',
+    ]);
+    expect(operations[0].desiredConfiguration?.contributorInsights).toBeUndefined();
+    expect(operations[1].desiredConfiguration?.warmThroughput).toBeUndefined();
+  });
+
+  test('applies changed on-demand limits in place', () => {
+    const operations = planGsiOperations(
+      [{ ...current, onDemandThroughput: { maxReadRequestUnits: 100, maxWriteRequestUnits: 50 } }],
+      [{ ...desired, onDemandThroughput: { maxReadRequestUnits: 200, maxWriteRequestUnits: 50 } }]
+    );
+
+    expect(operations.map((op) => [op.type, op.reason])).toEqual([
+      ['UPDATE', 'on-demand throughput changed'],
+    ]);
+  });
+
+  test('treats a missing on-demand limit as unlimited', () => {
+    const operations = planGsiOperations(
+      [current],
+      [{ ...desired, onDemandThroughput: { maxReadRequestUnits: -1 } }]
+    );
+
+    expect(operations).toEqual([]);
+  });
+
+  test('treats warm throughput below the current value as satisfied', () => {
+    const operations = planGsiOperations(
+      [{ ...current, warmThroughput: { readUnitsPerSecond: 12000, writeUnitsPerSecond: 4000 } }],
+      [{ ...desired, warmThroughput: { readUnitsPerSecond: 1000 } }]
+    );
+
+    expect(operations).toEqual([]);
+  });
+
+  test('does not plan a warm throughput update when the index does not report one', () => {
+    const operations = planGsiOperations(
+      [current],
+      [{ ...desired, warmThroughput: { readUnitsPerSecond: 20000, writeUnitsPerSecond: 4000 } }]
+    );
+
+    expect(operations).toEqual([]);
+  });
+});
+
+describe('billing mode transitions', () => {
+  const throughput = { readCapacityUnits: 5, writeCapacityUnits: 5 };
+  const retired: GSIInfo = { ...current, indexName: 'Retired' };
+
+  test('switches after pure deletions and before new indexes, with capacity for every remaining index', () => {
+    const operations = planGsiOperations(
+      [current, retired],
+      [
+        { ...changedKeySchema, sortKey: { name: 'GSI1SK', type: 'S' }, provisionedThroughput: throughput },
+        { indexName: 'GSI2', partitionKey: { name: 'GSI2PK', type: 'S' }, provisionedThroughput: throughput },
+      ],
+      {
+        current: 'PAY_PER_REQUEST',
+        desired: 'PROVISIONED',
+        tableProvisionedThroughput: { readCapacityUnits: 10, writeCapacityUnits: 10 },
+      }
+    );
+
+    expect(operations.map((op) => [op.type, op.indexName])).toEqual([
+      ['DELETE', 'Retired'],
+      ['UPDATE_BILLING_MODE', '(table)'],
+      ['CREATE', 'GSI2'],
+    ]);
+    expect(operations[1].billingModeChange).toEqual({
+      from: 'PAY_PER_REQUEST',
+      to: 'PROVISIONED',
+      tableProvisionedThroughput: { readCapacityUnits: 10, writeCapacityUnits: 10 },
+      indexProvisionedThroughput: { GSI1: throughput },
+    });
+  });
+
+  test('rejects a switch to PROVISIONED while unmanaged indexes have no capacity', () => {
+    expect(() =>
+      planGsiOperations([current], [{ ...changedKeySchema, sortKey: { name: 'GSI1SK', type: 'S' }, provisionedThroughput: throughput }], {
+        current: 'PAY_PER_REQUEST',
+        desired: 'PROVISIONED',
+        tableProvisionedThroughput: throughput,
+        unmanagedIndexNames: ['Manual', 'Reporting'],
+      })
+    ).toThrow(/"Manual", "Reporting" are not managed by this resource/);
+  });
+
+  test('plans nothing extra when the table already uses the desired mode', () => {
+    const operations = planGsiOperations([current], [{ ...changedKeySchema, sortKey: { name: 'GSI1SK', type: 'S' } }], {
+      current: 'PAY_PER_REQUEST',
+      desired: 'PAY_PER_REQUEST',
+    });
+
+    expect(operations).toEqual([]);
+  });
+});
+
+describe('findBlockedReplacements', () => {
+  test('allows replacements by default', () => {
+    const operations = planGsiOperations([current], [changedKeySchema]);
+
+    expect(findBlockedReplacements(operations)).toEqual([]);
+  });
+
+  test('rejects replacements for indexes with replacementPolicy "deny"', () => {
+    const operations = planGsiOperations(
+      [current],
+      [{ ...changedKeySchema, replacementPolicy: 'deny' }]
+    );
+
+    const blocked = findBlockedReplacements(operations);
+    expect(blocked).toHaveLength(1);
+    expect(blocked[0]).toContain('"deny"');
+  });
+
+  test('requires the token that matches the desired definition', () => {
+    const desired: GSIConfiguration = {
+      ...changedKeySchema,
+      replacementPolicy: 'requireConfirmationToken',
+    };
+    const token = computeReplacementToken(desired);
+
+    const unapproved = findBlockedReplacements(planGsiOperations([current], [desired]));
+    expect(unapproved[0]).toContain(token);
+
+    const approved = findBlockedReplacements(
+      planGsiOperations([current], [{ ...desired, replacementConfirmationToken: token }])
+    );
+    expect(approved).toEqual([]);
+  });
+});
+
+describe('blue/green replacement', () => {
+  const blueGreen: GSIConfiguration = { ...changedKeySchema, replacementStrategy: 'blueGreen' };
+
+  test('creates a versioned shadow index before deleting the old one', () => {
+    const operations = planGsiOperations([current], [blueGreen]);
+
+    expect(operations.map((op) => [op.type, op.indexName])).toEqual([
+      ['CREATE', 'GSI1__v2'],
+      ['DELETE', 'GSI1'],
+    ]);
+    expect(operations[0].desiredConfiguration?.indexName).toBe('GSI1__v2');
+  });
+
+  test('skips a version name already taken by an index outside the plan', () => {
+    const operations = planGsiOperations([current], [blueGreen], undefined, ['GSI1__v2']);
+
+    expect(operations.map((op) => [op.type, op.indexName])).toEqual([
+      ['CREATE', 'GSI1__v3'],
+      ['DELETE', 'GSI1'],
+    ]);
+  });
+
+  test('rejects a key attribute type change because both versions would share the attribute', () => {
+    const typed: GSIInfo = {
+      ...current,
+      keySchema: [
+        { attributeName: 'GSI1PK', keyType: 'HASH', attributeType: 'S' },
+        { attributeName: 'GSI1SK', keyType: 'RANGE', attributeType: 'N' },
+      ],
+    };
+
+    expect(() =>
+      planGsiOperations(
+        [typed],
+        [{ ...blueGreen, sortKey: { name: 'GSI1SK', type: 'S' } }]
+      )
+    ).toThrow(/replacementStrategy "blueGreen"/);
+  });
+
+  test('deletes the old index once the shadow index exists', () => {
+    const shadow: GSIInfo = {
+      ...current,
+      indexName: 'GSI1__v2',
+      keySchema: [
+        { attributeName: 'GSI1PK', keyType: 'HASH' },
+        { attributeName: 'CreatedAt', keyType: 'RANGE' },
+      ],
+    };
+
+    const operations = planGsiOperations([current, shadow], [blueGreen]);
+
+    expect(operations.map((op) => [op.type, op.indexName])).toEqual([['DELETE', 'GSI1']]);
+    expect(resolvePhysicalIndexNames([current, shadow], [blueGreen])).toEqual({
+      GSI1: 'GSI1__v2',
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import type { GSIConfiguration, GSIManagerProps, IsCompleteResponse } from '../../lib/types';
+import type { DynamoDBGSIService } from '../../lambda/gsi-manager/src/dynamodb-gsi-service';
+import {
+  createOnEventHandler,
+  type CloudFormationCustomResourceEvent,
+} from '../../lambda/gsi-manager/src/handler';
+import { createIsCompleteHandler } from '../../lambda/gsi-manager/src/is-complete-handler';
+import { InMemoryDynamoDBGSIService } from './in-memory-dynamodb-gsi-service';
+import { InMemoryOperationStateStore } from './in-memory-operation-state-store';
+
+// Drives onEventHandler / isCompleteHandler the way the Provider framework does, with
+// the simulator advancing one step between polls.
+
+export const TABLE_NAME = 'SimulatedTable';
+
+type ResourceProps = Omit<GSIManagerProps, 'tableName'>;
+
+export interface FlowResult {
+  isComplete: boolean;
+  polls: number;
+  physicalResourceId: string;
+  data?: Record<string, unknown>;
+}
+
+let requestCounter = 0;
+
+export const createEvent = (
+  requestType: 'Create' | 'Update' | 'Delete',
+  props: ResourceProps,
+  oldProps?: ResourceProps
+): CloudFormationCustomResourceEvent => {
+  requestCounter += 1;
+  const common = {
+    ServiceToken: 'arn:aws:lambda:us-east-1:123456789012:function:provider',
+    ResponseURL: 'https://example.com/response',
+    StackId: 'arn:aws:cloudformation:us-east-1:123456789012:stack/Test/1',
+    RequestId: `request-${requestCounter}`,
+    LogicalResourceId: 'GsiManager',
+    ResourceType: 'Custom::GsiManager',
+    ResourceProperties: { tableName: TABLE_NAME, ...props } as Record<string, unknown>,
+  };
+
+  if (requestType === 'Create') {
+    return { ...common, RequestType: 'Create' };
+  }
+  const physical = { PhysicalResourceId: `GSIManager-${TABLE_NAME}` };
+  if (requestType === 'Update') {
+    return {
+      ...common,
+      ...physical,
+      RequestType: 'Update',
+      OldResourceProperties: { tableName: TABLE_NAME, ...oldProps } as Record<string, unknown>,
+    };
+  }
+  return { ...common, ...physical, RequestType: 'Delete' };
+};
+
+export const createFlow = (service: DynamoDBGSIService = new InMemoryDynamoDBGSIService()) => {
+  const store = new InMemoryOperationStateStore();
+  const dependencies = { createService: () => service, getStateStore: () => store };
+  const onEvent = createOnEventHandler(dependencies);
+  const isComplete = createIsCompleteHandler(dependencies);
+
+  // Runs one request to completion; `beforePoll` lets a test inspect or disturb the
+  // simulated table between polls.
+  const run = async (
+    event: CloudFormationCustomResourceEvent,
+    options: { maxPolls?: number; beforePoll?: (poll: number) => void } = {}
+  ): Promise<FlowResult> => {
+    const started = await onEvent(event);
+    const physicalResourceId = started.PhysicalResourceId;
+    if (started.IsComplete) {
+      return { isComplete: true, polls: 0, physicalResourceId, data: started.Data };
+    }
+
+    const maxPolls = options.maxPolls ?? 100;
+    for (let poll = 1; poll <= maxPolls; poll += 1) {
+      if (service instanceof InMemoryDynamoDBGSIService) {
+        service.advance();
+      }
+      options.beforePoll?.(poll);
+
+      const response: IsCompleteResponse = await isComplete({
+        ...event,
+        PhysicalResourceId: physicalResourceId,
+      });
+      if (response.IsComplete) {
+        return { isComplete: true, polls: poll, physicalResourceId, data: response.Data };
+      }
+    }
+    return { isComplete: false, polls: maxPolls, physicalResourceId };
+  };
+
+  return { store, onEvent, isComplete, run };
+};
+
+export const gsi = (indexName: string, overrides: Partial<GSIConfiguration> = {}): GSIConfiguration => ({
+  indexName,
+  partitionKey: { name: `${indexName}PK`, type: 'S' },
+  ...overrides,
+});
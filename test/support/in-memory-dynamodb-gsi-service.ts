@@ -0,0 +1,402 @@
+import type {
+  AttributeDefinition,
+  AttributeTypeCode,
+  BillingModeChange,
+  ErrorHandlingConfig,
+  GSIConfiguration,
+  GSIInfo,
+  TableBillingMode,
+} from '../../lib/types';
+import { mergeErrorHandlingConfig } from '../../lib/types';
+import type { DynamoDBGSIService } from '../../lambda/gsi-manager/src/dynamodb-gsi-service';
+import { retryWithBackoff } from '../../lambda/gsi-manager/src/error-handling';
+
+// In-memory model of the DynamoDB control plane for driving the handlers in Jest.
+// Time only moves when advance() is called (the tests call it between isComplete polls),
+// so every intermediate status is observable and runs are deterministic.
+
+export type SimulatedErrorName =
+  | 'ResourceInUseException'
+  | 'LimitExceededException'
+  | 'ThrottlingException'
+  | 'ValidationException';
+
+type IndexStatus = 'CREATING' | 'UPDATING' | 'DELETING' | 'ACTIVE';
+
+interface SimulatedIndex {
+  info: Omit<GSIInfo, 'indexStatus'>;
+  status: IndexStatus;
+  remainingSteps: number;
+  contributorInsights: boolean;
+}
+
+interface SimulatedTable {
+  status: 'ACTIVE' | 'UPDATING';
+  remainingSteps: number;
+  billingMode: TableBillingMode;
+  keyAttributes: AttributeDefinition[];
+  indexes: Map<string, SimulatedIndex>;
+}
+
+// Number of advance() steps each transition takes.
+export interface TransitionSteps {
+  create: number;
+  update: number;
+  delete: number;
+  billingMode: number;
+}
+
+export interface InMemoryDynamoDBGSIServiceOptions {
+  steps?: Partial<TransitionSteps>;
+  // Retries wrap each simulated call the same way DynamoDBGSIServiceImpl wraps SDK calls.
+  errorHandling?: Partial<ErrorHandlingConfig>;
+  // Upper bound for the blocking wait* methods, which advance time on their own.
+  maxWaitSteps?: number;
+}
+
+export interface SimulatedTableDefinition {
+  keyAttributes: AttributeDefinition[];
+  billingMode?: TableBillingMode;
+  indexes?: GSIConfiguration[];
+}
+
+const DEFAULT_STEPS: TransitionSteps = { create: 3, update: 1, delete: 2, billingMode: 2 };
+
+const toError = (name: SimulatedErrorName, message: string): Error =>
+  Object.assign(new Error(message), { name });
+
+const toInfo = (config: GSIConfiguration): Omit<GSIInfo, 'indexStatus'> => ({
+  indexName: config.indexName,
+  keySchema: [
+    {
+      attributeName: config.partitionKey.name,
+      keyType: 'HASH',
+      attributeType: config.partitionKey.type,
+    },
+    ...(config.sortKey
+      ? [
+          {
+            attributeName: config.sortKey.name,
+            keyType: 'RANGE' as const,
+            attributeType: config.sortKey.type,
+          },
+        ]
+      : []),
+  ],
+  projection: {
+    projectionType: config.projectionType ?? 'ALL',
+    nonKeyAttributes: config.nonKeyAttributes,
+  },
+  provisionedThroughput: config.provisionedThroughput,
+  warmThroughput: config.warmThroughput,
+  onDemandThroughput: config.onDemandThroughput,
+});
+
+export class InMemoryDynamoDBGSIService implements DynamoDBGSIService {
+  // Mutating calls that reached the simulated table, e.g. "createGSI GSI1".
+  readonly calls: string[] = [];
+  private readonly tables = new Map<string, SimulatedTable>();
+  private readonly injectedErrors: Array<{
+    method: keyof DynamoDBGSIService;
+    name: SimulatedErrorName;
+    remaining: number;
+  }> = [];
+  private readonly steps: TransitionSteps;
+  private readonly errorHandling: ErrorHandlingConfig;
+  private readonly maxWaitSteps: number;
+
+  constructor(options: InMemoryDynamoDBGSIServiceOptions = {}) {
+    this.steps = { ...DEFAULT_STEPS, ...options.steps };
+    this.errorHandling = mergeErrorHandlingConfig({
+      baseDelayMs: 1,
+      maxDelayMs: 5,
+      ...options.errorHandling,
+    });
+    this.maxWaitSteps = options.maxWaitSteps ?? 100;
+  }
+
+  createTable(tableName: string, definition: SimulatedTableDefinition): void {
+    const table: SimulatedTable = {
+      status: 'ACTIVE',
+      remainingSteps: 0,
+      billingMode: definition.billingMode ?? 'PAY_PER_REQUEST',
+      keyAttributes: definition.keyAttributes,
+      indexes: new Map(),
+    };
+    (definition.indexes ?? []).forEach((config) => {
+      this.assertAttributeTypes(table, config);
+      table.indexes.set(config.indexName, {
+        info: toInfo(config),
+        status: 'ACTIVE',
+        remainingSteps: 0,
+        contributorInsights: config.contributorInsights ?? false,
+      });
+    });
+    this.tables.set(tableName, table);
+  }
+
+  // Puts the table into UPDATING for the given number of steps (e.g. a stream or TTL change).
+  setTableUpdating(tableName: string, steps: number): void {
+    const table = this.getTable(tableName);
+    table.status = 'UPDATING';
+    table.remainingSteps = steps;
+  }
+
+  // The next `times` calls of `method` fail with `name` before touching the table.
+  failNext(method: keyof DynamoDBGSIService, name: SimulatedErrorName, times = 1): void {
+    this.injectedErrors.push({ method, name, remaining: times });
+  }
+
+  indexStatuses(tableName: string): Record<string, IndexStatus> {
+    return Object.fromEntries(
+      [...this.getTable(tableName).indexes].map(([name, index]) => [name, index.status])
+    );
+  }
+
+  advance(steps = 1): void {
+    for (let step = 0; step < steps; step += 1) {
+      this.tables.forEach((table) => {
+        table.indexes.forEach((index, name) => {
+          if (index.status === 'ACTIVE') {
+            return;
+          }
+          index.remainingSteps -= 1;
+          if (index.remainingSteps > 0) {
+            return;
+          }
+          if (index.status === 'DELETING') {
+            table.indexes.delete(name);
+          } else {
+            index.status = 'ACTIVE';
+          }
+        });
+
+        if (table.status === 'UPDATING') {
+          table.remainingSteps -= 1;
+          if (table.remainingSteps <= 0) {
+            table.status = 'ACTIVE';
+          }
+        }
+      });
+    }
+  }
+
+  async getCurrentGSIs(tableName: string): Promise<GSIInfo[]> {
+    return this.call('getCurrentGSIs', () =>
+      [...this.getTable(tableName).indexes.values()].map((index) => ({
+        ...structuredClone(index.info),
+        indexStatus: index.status,
+      }))
+    );
+  }
+
+  async getTableKeyAttributes(tableName: string): Promise<AttributeDefinition[]> {
+    return this.call('getTableKeyAttributes', () => [...this.getTable(tableName).keyAttributes]);
+  }
+
+  async createGSI(tableName: string, gsiConfig: GSIConfiguration): Promise<void> {
+    return this.call('createGSI', () => {
+      const table = this.getTable(tableName);
+      this.assertCanStartIndexOperation(table);
+      if (table.indexes.has(gsiConfig.indexName)) {
+        throw toError('ValidationException', `Index ${gsiConfig.indexName} already exists`);
+      }
+      this.assertAttributeTypes(table, gsiConfig);
+
+      this.calls.push(`createGSI ${gsiConfig.indexName}`);
+      table.indexes.set(gsiConfig.indexName, {
+        info: toInfo(gsiConfig),
+        status: 'CREATING',
+        remainingSteps: this.steps.create,
+        contributorInsights: false,
+      });
+    });
+  }
+
+  async updateGSI(tableName: string, gsiConfig: GSIConfiguration): Promise<void> {
+    return this.call('updateGSI', () => {
+      const table = this.getTable(tableName);
+      const index = this.getIndex(table, gsiConfig.indexName);
+
+      const { provisionedThroughput, onDemandThroughput, warmThroughput } = gsiConfig;
+      const changesCapacity = Boolean(provisionedThroughput || onDemandThroughput || warmThroughput);
+      if (changesCapacity) {
+        this.assertCanStartIndexOperation(table);
+      }
+
+      this.calls.push(`updateGSI ${gsiConfig.indexName}`);
+      if (changesCapacity) {
+        index.info = {
+          ...index.info,
+          provisionedThroughput: provisionedThroughput ?? index.info.provisionedThroughput,
+          onDemandThroughput: onDemandThroughput ?? index.info.onDemandThroughput,
+          warmThroughput: warmThroughput ?? index.info.warmThroughput,
+        };
+        index.status = 'UPDATING';
+        index.remainingSteps = this.steps.update;
+      }
+      if (gsiConfig.contributorInsights !== undefined) {
+        index.contributorInsights = gsiConfig.contributorInsights;
+      }
+    });
+  }
+
+  async deleteGSI(tableName: string, indexName: string): Promise<void> {
+    return this.call('deleteGSI', () => {
+      const table = this.getTable(tableName);
+      this.assertCanStartIndexOperation(table);
+      const index = this.getIndex(table, indexName);
+
+      this.calls.push(`deleteGSI ${indexName}`);
+      index.status = 'DELETING';
+      index.remainingSteps = this.steps.delete;
+    });
+  }
+
+  async getTableBillingMode(tableName: string): Promise<TableBillingMode> {
+    return this.call('getTableBillingMode', () => this.getTable(tableName).billingMode);
+  }
+
+  async isContributorInsightsEnabled(tableName: string, indexName: string): Promise<boolean> {
+    return this.call(
+      'isContributorInsightsEnabled',
+      () => this.getIndex(this.getTable(tableName), indexName).contributorInsights
+    );
+  }
+
+  async updateBillingMode(tableName: string, change: BillingModeChange): Promise<void> {
+    return this.call('updateBillingMode', () => {
+      const table = this.getTable(tableName);
+      this.assertCanStartIndexOperation(table);
+
+      this.calls.push(`updateBillingMode ${change.to}`);
+      table.billingMode = change.to;
+      table.status = 'UPDATING';
+      table.remainingSteps = this.steps.billingMode;
+      table.indexes.forEach((index, name) => {
+        index.info.provisionedThroughput =
+          change.to === 'PROVISIONED' ? change.indexProvisionedThroughput?.[name] : undefined;
+        index.status = 'UPDATING';
+        index.remainingSteps = this.steps.billingMode;
+      });
+    });
+  }
+
+  async waitForGSIStatus(
+    tableName: string,
+    indexName: string,
+    targetStatus: 'ACTIVE' | 'DELETED'
+  ): Promise<void> {
+    await this.waitUntil(
+      () => this.isGSIInStatus(tableName, indexName, targetStatus),
+      `GSI "${indexName}" to reach status ${targetStatus}`
+    );
+  }
+
+  async waitForTableActive(tableName: string): Promise<void> {
+    await this.waitUntil(() => this.isTableActive(tableName), `table "${tableName}" to become ACTIVE`);
+  }
+
+  async isTableActive(tableName: string): Promise<boolean> {
+    return this.call('isTableActive', () => this.getTable(tableName).status === 'ACTIVE');
+  }
+
+  async isGSIInStatus(
+    tableName: string,
+    indexName: string,
+    targetStatus: 'ACTIVE' | 'DELETED'
+  ): Promise<boolean> {
+    return this.call('isGSIInStatus', () => {
+      const index = this.getTable(tableName).indexes.get(indexName);
+      return targetStatus === 'DELETED' ? !index : index?.status === targetStatus;
+    });
+  }
+
+  async isBillingModeApplied(tableName: string, billingMode: TableBillingMode): Promise<boolean> {
+    return this.call('isBillingModeApplied', () => {
+      const table = this.getTable(tableName);
+      return (
+        table.status === 'ACTIVE' &&
+        table.billingMode === billingMode &&
+        [...table.indexes.values()].every((index) => index.status === 'ACTIVE')
+      );
+    });
+  }
+
+  private async call<T>(method: keyof DynamoDBGSIService, operation: () => T): Promise<T> {
+    return retryWithBackoff(async () => {
+      const injected = this.injectedErrors.find(
+        (error) => error.method === method && error.remaining > 0
+      );
+      if (injected) {
+        injected.remaining -= 1;
+        throw toError(injected.name, `Injected ${injected.name} for ${method}`);
+      }
+      return operation();
+    }, this.errorHandling);
+  }
+
+  private async waitUntil(condition: () => Promise<boolean>, description: string): Promise<void> {
+    for (let step = 0; step <= this.maxWaitSteps; step += 1) {
+      if (await condition()) {
+        return;
+      }
+      this.advance();
+    }
+    throw new Error(`Timed out waiting for ${description}`);
+  }
+
+  // DynamoDB allows one index creation or deletion at a time, and none while the table is UPDATING.
+  private assertCanStartIndexOperation(table: SimulatedTable): void {
+    if (table.status !== 'ACTIVE') {
+      throw toError('ResourceInUseException', 'Table is being updated');
+    }
+    const busy = [...table.indexes.entries()].find(([, index]) => index.status !== 'ACTIVE');
+    if (busy) {
+      throw toError(
+        'LimitExceededException',
+        `Index ${busy[0]} is ${busy[1].status}; only one index operation can run at a time`
+      );
+    }
+  }
+
+  // Attribute definitions only exist while a table or index key uses them, so a
+  // deleted index frees its attributes for a different type.
+  private assertAttributeTypes(table: SimulatedTable, config: GSIConfiguration): void {
+    const declared = new Map<string, AttributeTypeCode>(
+      table.keyAttributes.map((attribute) => [attribute.name, attribute.type])
+    );
+    table.indexes.forEach((index) =>
+      index.info.keySchema.forEach((key) => {
+        if (key.attributeType) {
+          declared.set(key.attributeName, key.attributeType);
+        }
+      })
+    );
+
+    [config.partitionKey, config.sortKey].forEach((key) => {
+      const type = key && declared.get(key.name);
+      if (key && type && type !== key.type) {
+        throw toError('ValidationException', `Attribute ${key.name} is already defined as ${type}`);
+      }
+    });
+  }
+
+  private getTable(tableName: string): SimulatedTable {
+    const table = this.tables.get(tableName);
+    if (!table) {
+      throw Object.assign(new Error(`Requested resource not found: Table: ${tableName} not found`), {
+        name: 'ResourceNotFoundException',
+      });
+    }
+    return table;
+  }
+
+  private getIndex(table: SimulatedTable, indexName: string): SimulatedIndex {
+    const index = table.indexes.get(indexName);
+    if (!index) {
+      throw toError('ValidationException', `Index ${indexName} does not exist`);
+    }
+    return index;
+  }
+}
@@ -0,0 +1,21 @@
+import type { GSIOperationState } from '../../lib/types';
+import type { OperationStateStore } from '../../lambda/gsi-manager/src/operation-state-store';
+import {
+  deserializeOperationState,
+  serializeOperationState,
+} from '../../lambda/gsi-manager/src/operation-state';
+
+// Stores the serialized form, like the DynamoDB-backed store, so a test cannot
+// accidentally share object references between handler invocations.
+export class InMemoryOperationStateStore implements OperationStateStore {
+  private readonly items = new Map<string, string>();
+
+  async load(resourceKey: string): Promise<GSIOperationState | undefined> {
+    const serialized = this.items.get(resourceKey);
+    return serialized ? deserializeOperationState(serialized) : undefined;
+  }
+
+  async save(resourceKey: string, state: GSIOperationState): Promise<void> {
+    this.items.set(resourceKey, serializeOperationState(state));
+  }
+}
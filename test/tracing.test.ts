@@ -0,0 +1,102 @@
+import type { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import * as AWSXRay from 'aws-xray-sdk-core';
+import { DynamoDBGSIServiceImpl } from '../lambda/gsi-manager/src/dynamodb-gsi-service';
+import { TRACING_ENABLED_ENV, traceDynamoDBCall } from '../lambda/gsi-manager/src/tracing';
+
+// Without an active Lambda segment the real SDK cannot open subsegments, so the capture
+// function is replaced with one that hands the callback a recording subsegment.
+jest.mock('aws-xray-sdk-core', () => ({ captureAsyncFunc: jest.fn() }));
+
+const captureAsyncFunc = AWSXRay.captureAsyncFunc as unknown as jest.Mock;
+
+const createSubsegment = () => ({
+  addAnnotation: jest.fn(),
+  addError: jest.fn(),
+  close: jest.fn(),
+});
+
+let subsegment: ReturnType<typeof createSubsegment>;
+
+beforeEach(() => {
+  subsegment = createSubsegment();
+  captureAsyncFunc.mockReset();
+  captureAsyncFunc.mockImplementation((_name: string, fn: (segment: unknown) => unknown) =>
+    fn(subsegment)
+  );
+});
+
+afterEach(() => {
+  delete process.env[TRACING_ENABLED_ENV];
+});
+
+const describeTableOutput = {
+  Table: {
+    TableName: 'Orders',
+    AttributeDefinitions: [{ AttributeName: 'PK', AttributeType: 'S' }],
+    KeySchema: [{ AttributeName: 'PK', KeyType: 'HASH' }],
+  },
+};
+
+const createClient = (send: jest.Mock) => ({ send }) as unknown as DynamoDBClient;
+
+describe('traceDynamoDBCall', () => {
+  test('records the call in a subsegment with its annotations', async () => {
+    const result = await traceDynamoDBCall(
+      'UpdateTable',
+      { tableName: 'Orders', indexName: undefined },
+      async () => 'done'
+    );
+
+    expect(result).toBe('done');
+    expect(captureAsyncFunc).toHaveBeenCalledWith('DynamoDB.UpdateTable', expect.any(Function));
+    expect(subsegment.addAnnotation).toHaveBeenCalledTimes(1);
+    expect(subsegment.addAnnotation).toHaveBeenCalledWith('tableName', 'Orders');
+    expect(subsegment.close).toHaveBeenCalledTimes(1);
+  });
+
+  test('adds the error to the subsegment and rethrows it', async () => {
+    const failure = new Error('LimitExceededException');
+
+    await expect(
+      traceDynamoDBCall('UpdateTable', { tableName: 'Orders' }, async () => {
+        throw failure;
+      })
+    ).rejects.toBe(failure);
+    expect(subsegment.addError).toHaveBeenCalledWith(failure);
+    expect(subsegment.close).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('DynamoDBGSIServiceImpl tracing', () => {
+  test('wraps each DynamoDB call when tracing is enabled', async () => {
+    const send = jest.fn().mockResolvedValue(describeTableOutput);
+    const service = new DynamoDBGSIServiceImpl({ client: createClient(send), tracing: true });
+
+    await service.getTableKeyAttributes('Orders');
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(captureAsyncFunc).toHaveBeenCalledWith('DynamoDB.DescribeTable', expect.any(Function));
+    expect(subsegment.addAnnotation).toHaveBeenCalledWith('tableName', 'Orders');
+  });
+
+  test('follows the handler environment when the option is omitted', async () => {
+    process.env[TRACING_ENABLED_ENV] = 'true';
+    const send = jest.fn().mockResolvedValue(describeTableOutput);
+    const service = new DynamoDBGSIServiceImpl({ client: createClient(send) });
+
+    await service.getTableKeyAttributes('Orders');
+
+    expect(captureAsyncFunc).toHaveBeenCalledTimes(1);
+  });
+
+  test('calls DynamoDB directly when tracing is disabled', async () => {
+    const send = jest.fn().mockResolvedValue(describeTableOutput);
+    const service = new DynamoDBGSIServiceImpl({ client: createClient(send), tracing: false });
+
+    const attributes = await service.getTableKeyAttributes('Orders');
+
+    expect(attributes).toEqual([{ name: 'PK', type: 'S' }]);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(captureAsyncFunc).not.toHaveBeenCalled();
+  });
+});